@@ -1,9 +1,11 @@
 class MeridianbetApp {
     constructor() {
         this.isAuthenticated = false;
+        this.currentUser = null;
         this.currentMode = 'live';
         this.currentSport = 'football';
         this.currentInterval = '1min';
+        this.fairOddsMethod = 'proportional';
         this.accessToken = null;
         this.refreshToken = null;
         this.tokenExpiresAt = null;
@@ -11,6 +13,10 @@ class MeridianbetApp {
         this.isExtracting = false;
         this.isRunning = false;
         this.eventSource = null;
+        this.currentJobId = null;
+        this.preGameData = null;
+        this.liveState = null;
+        this.lastLiveEventId = null;
         
         this.init();
     }
@@ -44,19 +50,28 @@ class MeridianbetApp {
         const intervalSelect = document.getElementById('interval-select');
         intervalSelect.addEventListener('change', (e) => this.handleIntervalChange(e.target.value));
 
+        // Fair odds method selector
+        const fairOddsSelect = document.getElementById('fair-odds-method-select');
+        fairOddsSelect.addEventListener('change', (e) => this.handleFairOddsMethodChange(e.target.value));
+
         // Extract button
         const extractBtn = document.getElementById('extract-btn');
         extractBtn.addEventListener('click', () => this.handleExtractData());
+
+        // Export button
+        const exportBtn = document.getElementById('export-btn');
+        exportBtn.addEventListener('click', () => this.handleExport());
     }
 
     async handleLogin(e) {
         e.preventDefault();
         
+        const username = document.getElementById('username').value;
         const password = document.getElementById('password').value;
         const errorMessage = document.getElementById('error-message');
         
-        if (!password) {
-            this.showError('Please enter a password');
+        if (!username || !password) {
+            this.showError('Please enter a username and password');
             return;
         }
 
@@ -66,14 +81,13 @@ class MeridianbetApp {
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ password }),
+                body: JSON.stringify({ username, password }),
             });
 
             const data = await response.json();
 
             if (response.ok) {
-                this.isAuthenticated = true;
-                this.showMainPage();
+                this.setAuthenticatedUser(data.user);
                 this.hideError();
             } else {
                 this.showError(data.error || 'Login failed');
@@ -84,8 +98,68 @@ class MeridianbetApp {
         }
     }
 
-    handleLogout() {
+    async handleLogout() {
+        if (this.isRunning) {
+            this.stopDataExtraction(document.getElementById('extract-btn'), document.getElementById('data-content'));
+        }
+
+        try {
+            await fetch('/api/auth/logout', { method: 'POST' });
+        } catch (error) {
+            console.error('Logout error:', error);
+        }
+
+        this.clearSession();
+    }
+
+    /**
+     * Show the main page for a logged in user; viewers cannot start or stop extractions
+     */
+    setAuthenticatedUser(user) {
+        this.isAuthenticated = true;
+        this.currentUser = user;
+
+        const extractBtn = document.getElementById('extract-btn');
+        const isAdmin = user && user.role === 'admin';
+        extractBtn.disabled = !isAdmin;
+        extractBtn.title = isAdmin ? '' : 'Only admins can start extractions';
+        document.getElementById('current-user').textContent = user ? `${user.username} (${user.role})` : '';
+
+        this.showMainPage();
+        this.loadSports();
+    }
+
+    /**
+     * Fill the sport selector from the server's sport catalog
+     */
+    async loadSports() {
+        try {
+            const response = await fetch('/api/sports');
+            const data = await response.json();
+
+            if (!response.ok || !data.success) {
+                throw new Error(data.error || 'Failed to load sports');
+            }
+
+            const sportSelect = document.getElementById('sport-select');
+            sportSelect.replaceChildren(...data.sports.map(sport => new Option(sport.name, sport.slug)));
+
+            if (!data.sports.some(sport => sport.slug === this.currentSport) && data.sports.length > 0) {
+                this.currentSport = data.sports[0].slug;
+            }
+            sportSelect.value = this.currentSport;
+        } catch (error) {
+            console.error('Error loading sports:', error);
+        }
+    }
+
+    /**
+     * Forget the session and go back to the login page
+     */
+    clearSession() {
+        this.stopSSEConnection();
         this.isAuthenticated = false;
+        this.currentUser = null;
         this.showLoginPage();
         document.getElementById('password').value = '';
         this.hideError();
@@ -129,6 +203,46 @@ class MeridianbetApp {
         this.updateDataDisplay();
     }
 
+    /**
+     * Redraw the current data with the fair odds of another margin removal method
+     */
+    handleFairOddsMethodChange(method) {
+        this.fairOddsMethod = method;
+
+        if (this.currentMode === 'pregame' && this.preGameData) {
+            this.displayPreGameData(this.preGameData);
+        } else if (this.currentMode === 'live' && this.liveState) {
+            this.renderLiveState();
+        }
+    }
+
+    /**
+     * Margin of a market as computed by the server, empty when it has no analytics
+     */
+    renderMarketMargin(market) {
+        if (!market.analytics) {
+            return '';
+        }
+        return `<span class="market-margin" title="Payout ${(market.analytics.payout * 100).toFixed(2)}%">Margin ${(market.analytics.margin * 100).toFixed(2)}%</span>`;
+    }
+
+    /**
+     * Implied probability and fair price of a selection with the selected method
+     */
+    renderSelectionAnalytics(market, selection) {
+        const outcome = market.analytics && market.analytics.outcomes.find(candidate => candidate.outcomeId === selection.selectionId);
+        if (!outcome) {
+            return '';
+        }
+
+        const fairProbability = outcome.fairProbability[this.fairOddsMethod];
+        return `
+            <span class="selection-analytics" title="Fair probability ${(fairProbability * 100).toFixed(1)}%">
+                ${(outcome.impliedProbability * 100).toFixed(1)}% · fair ${outcome.fairPrice[this.fairOddsMethod].toFixed(2)}
+            </span>
+        `;
+    }
+
     async handleExtractData() {
         const extractBtn = document.getElementById('extract-btn');
         const dataContent = document.getElementById('data-content');
@@ -157,14 +271,23 @@ class MeridianbetApp {
                 body: JSON.stringify({ 
                     mode: this.currentMode,
                     sport: this.currentSport,
-                    interval: this.currentInterval
+                    interval: this.currentInterval,
+                    incremental: this.currentMode === 'pregame'
                 }),
             });
 
+            if (response.status === 401) {
+                this.clearSession();
+                this.showError('Your session has expired, please log in again');
+                return;
+            }
+
             const data = await response.json();
 
             if (response.ok && data.success) {
                 this.isRunning = true;
+                this.currentJobId = data.jobId;
+                document.getElementById('export-btn').disabled = false;
                 extractBtn.innerHTML = 'Stop';
                 extractBtn.disabled = false;
                 
@@ -191,13 +314,16 @@ class MeridianbetApp {
 
     stopDataExtraction(extractBtn, dataContent) {
         try {
-            // Stop backend extraction
+            // Stop backend extraction job started by this page
             fetch('/api/extraction/stop', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
+                body: JSON.stringify({ jobId: this.currentJobId }),
             });
+            this.currentJobId = null;
+            document.getElementById('export-btn').disabled = true;
 
             // Stop SSE connection
             this.stopSSEConnection();
@@ -220,12 +346,31 @@ class MeridianbetApp {
         }
     }
 
+    /**
+     * Download the latest data of the running job in the selected format
+     */
+    handleExport() {
+        if (!this.currentJobId) {
+            return;
+        }
+
+        const format = document.getElementById('export-format-select').value;
+        const link = document.createElement('a');
+        link.href = `/api/jobs/${encodeURIComponent(this.currentJobId)}/export?format=${format}`;
+        link.download = '';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    }
+
     startSSEConnection() {
         if (this.eventSource) {
             this.eventSource.close();
         }
 
-        this.eventSource = new EventSource('/api/extraction/stream');
+        // Resume the live patch stream where the previous connection stopped
+        const query = this.lastLiveEventId ? `?lastEventId=${encodeURIComponent(this.lastLiveEventId)}` : '';
+        this.eventSource = new EventSource(`/api/extraction/stream${query}`);
         
         this.eventSource.onmessage = (event) => {
             try {
@@ -256,18 +401,31 @@ class MeridianbetApp {
 
     handleStreamData(data) {
         const dataContent = document.getElementById('data-content');
+
+        // Ignore messages that belong to other extraction jobs
+        if (data.jobId && data.jobId !== this.currentJobId) {
+            return;
+        }
         
         if (data.type === 'data') {
             if (this.currentMode === 'pregame') {
+                this.preGameData = data.payload;
                 this.displayPreGameData(data.payload);
             } else if (this.currentMode === 'live') {
                 this.displayLiveData(data.payload);
             } else {
                 this.displayExtractedData(data.payload);
             }
-        } else if (data.type === 'live-data') {
-            // Handle real-time live updates
-            this.handleLiveUpdate(data.payload);
+        } else if (data.type === 'data-delta') {
+            this.applyPreGameDelta(data.payload);
+        } else if (data.type === 'live-snapshot') {
+            this.applyLiveSnapshot(data.payload);
+        } else if (data.type === 'live-patch') {
+            this.applyLivePatch(data.payload);
+        } else if (data.type === 'live-connection') {
+            this.displayLiveConnection(data.payload);
+        } else if (data.type === 'alert') {
+            this.displayAlert(data.payload);
         } else if (data.type === 'error') {
             dataContent.innerHTML = `<p style="color: #e74c3c;">Error: ${data.message}</p>`;
         } else if (data.type === 'status') {
@@ -275,6 +433,89 @@ class MeridianbetApp {
         }
     }
 
+    /**
+     * Merge an incremental pre-game refresh into the last full result and redraw it
+     */
+    applyPreGameDelta(delta) {
+        if (!this.preGameData) {
+            return;
+        }
+
+        const dropped = new Set([...delta.removed, ...delta.started]);
+        const changedEvents = new Map(delta.events.map(event => [event.header.eventId, event]));
+        const knownIds = new Set(this.preGameData.events.map(event => event.header.eventId));
+
+        const events = this.preGameData.events
+            .filter(event => !dropped.has(event.header.eventId))
+            .map(event => changedEvents.get(event.header.eventId) || event)
+            .concat(delta.events.filter(event => !knownIds.has(event.header.eventId)));
+
+        const markets = { ...this.preGameData.markets, ...delta.markets };
+        dropped.forEach(eventId => delete markets[eventId]);
+
+        this.preGameData = {
+            ...this.preGameData,
+            events,
+            markets,
+            summary: delta.summary
+        };
+        this.displayPreGameData(this.preGameData);
+    }
+
+    /**
+     * Show a banner while the server's live WebSocket is down or resynchronising
+     */
+    displayLiveConnection(status) {
+        const banner = document.getElementById('live-connection-status');
+
+        if (status.state === 'connected') {
+            banner.style.display = 'none';
+            return;
+        }
+
+        const attempt = `attempt ${status.attempt}/${status.maxAttempts}`;
+        const messages = {
+            reconnecting: `Live feed disconnected, reconnecting (${attempt})...`,
+            degraded: `Live feed reconnected, resynchronising odds (${attempt})...`,
+            failed: `Live feed lost after ${status.maxAttempts} reconnect attempts: ${status.reason}`
+        };
+
+        banner.className = `connection-status ${status.state}`;
+        banner.textContent = messages[status.state];
+        banner.style.display = 'block';
+    }
+
+    /**
+     * Show a fired alert at the top of the alerts panel
+     */
+    displayAlert(alert) {
+        const alertsPanel = document.getElementById('alerts-panel');
+        const alertsList = document.getElementById('alerts-list');
+        alertsPanel.style.display = 'block';
+
+        const alertElement = document.createElement('div');
+        alertElement.className = 'alert-item';
+
+        // Rule names and messages are user input, so they are set as text rather than HTML
+        [
+            ['alert-rule', alert.ruleName],
+            ['alert-message', alert.message],
+            ['update-time', new Date(alert.firedAt).toLocaleTimeString()]
+        ].forEach(([className, text]) => {
+            const span = document.createElement('span');
+            span.className = className;
+            span.textContent = text;
+            alertElement.appendChild(span);
+        });
+
+        alertsList.insertBefore(alertElement, alertsList.firstChild);
+
+        // Keep only last 20 alerts
+        while (alertsList.children.length > 20) {
+            alertsList.removeChild(alertsList.lastChild);
+        }
+    }
+
     /**
      * Disable mode selection controls
      */
@@ -559,7 +800,7 @@ class MeridianbetApp {
         // Group events by league for better organization
         const eventsByLeague = {};
         data.events.forEach(event => {
-            const leagueName = event.header.leagueName || 'Unknown League';
+            const leagueName = event.header.league ? event.header.league.name : 'Unknown League';
             if (!eventsByLeague[leagueName]) {
                 eventsByLeague[leagueName] = [];
             }
@@ -617,11 +858,9 @@ class MeridianbetApp {
                                             </div>
                                             <div class="event-details">
                                                 <div class="event-teams">
-                                                    ${event.header.rivals && event.header.rivals.length >= 2 
-                                                        ? `${event.header.rivals[0]} vs ${event.header.rivals[1]}`
-                                                        : event.header.homeTeamName && event.header.awayTeamName
-                                                            ? `${event.header.homeTeamName} vs ${event.header.awayTeamName}`
-                                                            : 'Home vs Away'
+                                                    ${event.header.rivals && event.header.rivals.length > 0
+                                                        ? event.header.rivals.join(' vs ')
+                                                        : 'Unknown participants'
                                                     }
                                                 </div>
                                                 <div class="event-time">
@@ -639,12 +878,14 @@ class MeridianbetApp {
                                                             <div class="market-card">
                                                                 <div class="market-header">
                                                                     <span class="market-name">${market.name}</span>
+                                                                    ${this.renderMarketMargin(market)}
                                                                     <span class="market-state ${market.state.toLowerCase()}">${market.state}</span>
                                                                 </div>
                                                                 <div class="market-selections">
                                                                     ${market.selections.map(selection => `
                                                                         <div class="selection-item">
                                                                             <span class="selection-name">${selection.name}</span>
+                                                                            ${this.renderSelectionAnalytics(market, selection)}
                                                                             <span class="selection-price ${selection.state.toLowerCase()}">${selection.price}</span>
                                                                         </div>
                                                                     `).join('')}
@@ -713,9 +954,19 @@ class MeridianbetApp {
         errorMessage.style.display = 'none';
     }
 
-    checkAuthState() {
-        // Check if user is already authenticated (in a real app, this would check localStorage or cookies)
-        // For now, always show login page
+    async checkAuthState() {
+        // Resume an existing session cookie if the server still accepts it
+        try {
+            const response = await fetch('/api/auth/me');
+            if (response.ok) {
+                const data = await response.json();
+                this.setAuthenticatedUser(data.user);
+                return;
+            }
+        } catch (error) {
+            console.error('Session check error:', error);
+        }
+
         this.showLoginPage();
     }
 
@@ -749,9 +1000,6 @@ class MeridianbetApp {
                     </div>
                 </div>
             `;
-        } else if (data.type === 'live_data' && data.events) {
-            // Display actual live events and markets data
-            this.displayLiveEventsAndMarkets(data);
         } else {
             dataContent.innerHTML = `<p class="placeholder">${data.message}</p>`;
         }
@@ -792,11 +1040,9 @@ class MeridianbetApp {
                 <div class="event-card">
                     <div class="event-header">
                         <div class="event-teams">
-                            ${event.header.rivals && event.header.rivals.length >= 2 
-                                ? `${event.header.rivals[0]} vs ${event.header.rivals[1]}`
-                                : event.header.homeTeamName && event.header.awayTeamName
-                                    ? `${event.header.homeTeamName} vs ${event.header.awayTeamName}`
-                                    : 'Home vs Away'
+                            ${event.header.rivals && event.header.rivals.length > 0
+                                ? event.header.rivals.join(' vs ')
+                                : 'Unknown participants'
                             }
                         </div>
                         <div class="event-info">
@@ -824,6 +1070,7 @@ class MeridianbetApp {
                         html += `
                             <div class="market-card">
                                 <div class="market-name">${market.name}</div>
+                                ${this.renderMarketMargin(market)}
                                 ${market.overUnder ? `<div class="over-under">${market.overUnder}</div>` : ''}
                                 <div class="selections">
                         `;
@@ -832,6 +1079,7 @@ class MeridianbetApp {
                             html += `
                                 <div class="selection">
                                     <span class="selection-name">${selection.name}</span>
+                                    ${this.renderSelectionAnalytics(market, selection)}
                                     <span class="selection-price">${selection.price}</span>
                                     <span class="selection-state ${selection.state.toLowerCase()}">${selection.state}</span>
                                 </div>
@@ -863,63 +1111,73 @@ class MeridianbetApp {
         dataContent.innerHTML = html;
     }
 
-    handleLiveUpdate(updateData) {
-        // If this is a live data update (not individual event updates), refresh the main display
-        if (updateData.type === 'live_data' && updateData.events) {
-            this.displayLiveEventsAndMarkets(updateData);
+    /**
+     * Replace the live state with a full snapshot from the stream
+     */
+    applyLiveSnapshot(snapshot) {
+        this.lastLiveEventId = snapshot.id;
+        this.liveState = {
+            events: Object.fromEntries(snapshot.events.map(event => [event.header.eventId, event])),
+            markets: snapshot.markets,
+            lastUpdate: snapshot.lastUpdate
+        };
+
+        if (snapshot.events.length > 0) {
+            this.renderLiveState();
+        }
+    }
+
+    /**
+     * Apply a sequence-numbered live patch, reconnecting to resync when a patch was missed
+     */
+    applyLivePatch(patch) {
+        const lastSeq = this.lastLiveEventId ? parseInt(this.lastLiveEventId.split('.')[1]) : null;
+        if (!this.liveState || patch.seq !== lastSeq + 1) {
+            console.warn(`Missed live patches before ${patch.seq}, resyncing`);
+            this.startSSEConnection();
             return;
         }
 
-        // For individual updates, add to the updates list
-        const liveUpdatesList = document.getElementById('live-updates-list');
-        if (!liveUpdatesList) return;
+        const { events, markets } = this.liveState;
+
+        patch.ops.forEach(op => {
+            if (op.op === 'event') {
+                events[op.eventId] = { header: op.header };
+            } else if (op.op === 'event-removed') {
+                delete events[op.eventId];
+                delete markets[op.eventId];
+            } else if (op.op === 'market') {
+                const groups = (markets[op.eventId] || []).filter(group => group.gameTemplateId !== op.market.gameTemplateId);
+                markets[op.eventId] = [...groups, op.market];
+            } else if (op.op === 'market-removed') {
+                markets[op.eventId] = (markets[op.eventId] || []).filter(group => group.gameTemplateId !== op.gameTemplateId);
+            } else if (op.op === 'selection') {
+                const group = (markets[op.eventId] || []).find(candidate => candidate.gameTemplateId === op.gameTemplateId);
+                const market = group && group.markets.find(candidate => candidate.marketId === op.marketId);
+                const selection = market && market.selections.find(candidate => candidate.selectionId === op.selectionId);
+                if (selection) {
+                    selection.price = op.price;
+                    selection.state = op.state;
+                    market.analytics = op.analytics;
+                }
+            }
+        });
+
+        this.liveState.lastUpdate = patch.lastUpdate;
+        this.lastLiveEventId = patch.id;
+        this.renderLiveState();
+    }
 
-        const updateElement = document.createElement('div');
-        updateElement.className = 'live-update-item';
-        
-        if (updateData.type === 'single-event-update') {
-            const event = updateData.data.header;
-            updateElement.innerHTML = `
-                <div class="live-event-update">
-                    <h4>Event Update: ${event.eventId}</h4>
-                    <div class="event-info">
-                        <span class="match-time">${event.matchTime}</span>
-                        <span class="event-state">${event.state}</span>
-                    </div>
-                    <div class="games-count">${updateData.data.games.length} market groups</div>
-                    <div class="update-time">${new Date(updateData.timestamp).toLocaleTimeString()}</div>
-                </div>
-            `;
-        } else if (updateData.type === 'offer-feed-update-live') {
-            const event = updateData.data.header;
-            updateElement.innerHTML = `
-                <div class="live-offer-update">
-                    <h4>Offer Update: ${event.eventId}</h4>
-                    <div class="event-info">
-                        <span class="match-time">${event.matchTime}</span>
-                        <span class="event-state">${event.state}</span>
-                    </div>
-                    <div class="teams">${event.rivals.join(' vs ')}</div>
-                    <div class="positions-count">${updateData.data.positions.length} positions</div>
-                    <div class="update-time">${new Date(updateData.timestamp).toLocaleTimeString()}</div>
-                </div>
-            `;
-        } else {
-            updateElement.innerHTML = `
-                <div class="live-update-item">
-                    <h4>Unknown Update</h4>
-                    <div class="update-time">${new Date(updateData.timestamp).toLocaleTimeString()}</div>
-                </div>
-            `;
+    renderLiveState() {
+        if (this.currentMode !== 'live') {
+            return;
         }
 
-        // Add to top of list
-        liveUpdatesList.insertBefore(updateElement, liveUpdatesList.firstChild);
-        
-        // Keep only last 20 updates
-        while (liveUpdatesList.children.length > 20) {
-            liveUpdatesList.removeChild(liveUpdatesList.lastChild);
-        }
+        this.displayLiveEventsAndMarkets({
+            events: Object.values(this.liveState.events),
+            markets: this.liveState.markets,
+            lastUpdate: this.liveState.lastUpdate
+        });
     }
 }
 
@@ -0,0 +1,165 @@
+/**
+ * Canonical data model shared by pre-game and live data.
+ * Built from the raw betshop payloads by MeridianbetMapper.
+ */
+
+export type DataSource = 'pregame' | 'live';
+
+export interface Sport {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+export interface Region {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+export interface League {
+  id: number;
+  name: string;
+  slug: string;
+  favorite: boolean;
+  region: Region | null;
+}
+
+export interface Participant {
+  name: string;
+  slug: string | null;
+  side: 'home' | 'away' | null;
+}
+
+export interface PeriodScore {
+  home: number | null;
+  away: number | null;
+}
+
+export interface Score {
+  // Sum of the period scores, null when a period score could not be read
+  home: number | null;
+  away: number | null;
+  periods: PeriodScore[];
+  redCards: PeriodScore | null;
+  yellowCards: PeriodScore | null;
+}
+
+export interface Outcome {
+  id: string;
+  name: string;
+  price: number;
+  state: string;
+}
+
+export type FairOddsMethod = 'proportional' | 'shin' | 'power';
+
+export interface OutcomeAnalytics {
+  outcomeId: string;
+  impliedProbability: number;                       // 1 / price
+  fairProbability: Record<FairOddsMethod, number>;  // Implied probability with the margin removed
+  fairPrice: Record<FairOddsMethod, number>;        // 1 / fair probability
+}
+
+export interface MarketAnalytics {
+  overround: number;       // Sum of the implied probabilities
+  margin: number;          // Overround - 1
+  payout: number;          // 1 / overround, the share of stakes paid back
+  shinZ: number;           // Share of insider money estimated by Shin's method
+  powerExponent: number;   // Exponent of the power method
+  outcomes: OutcomeAnalytics[];
+}
+
+export interface Market {
+  id: number;
+  name: string;
+  state: string;
+  handicap: number | null;
+  overUnder: number | null;
+  earlyPayout: boolean;
+  outcomes: Outcome[];
+  analytics: MarketAnalytics | null;
+}
+
+export interface MarketGroup {
+  gameTemplateId: number;
+  name: string;
+  type: string | null;
+  priority: number | null;
+  favorite: boolean;
+  earlyPayout: boolean;
+  markets: Market[];
+}
+
+export interface Event {
+  id: number;
+  code: string | null;
+  source: DataSource;
+  sport: Sport | null;
+  league: League | null;
+  participants: Participant[];
+  startTime: Date | null;
+  state: string | null;
+  matchTime: string | null;
+  score: Score | null;
+  marketGroups: MarketGroup[];
+}
+
+export type MatchSide = 'home' | 'away';
+
+export type MatchPhase = 'in-play' | 'break' | 'finished' | 'cancelled';
+
+interface MatchStateBase {
+  eventId: number;
+  sportId: number | null;
+  phase: MatchPhase;
+  state: string | null;       // Upstream event state
+  matchTime: string | null;   // Upstream clock text, e.g. "67'" or "HT"
+  minute: number | null;      // Minute parsed from the clock, for sports that have one
+  period: number | null;      // 1-based index of the current period, half, quarter or set
+  updatedAt: Date;
+}
+
+export interface FootballMatchState extends MatchStateBase {
+  sport: 'football';
+  score: PeriodScore;
+  halves: PeriodScore[];
+  redCards: PeriodScore;
+  yellowCards: PeriodScore;
+}
+
+export interface BasketballMatchState extends MatchStateBase {
+  sport: 'basketball';
+  score: PeriodScore;
+  quarters: PeriodScore[];
+}
+
+export interface TennisMatchState extends MatchStateBase {
+  sport: 'tennis';
+  sets: PeriodScore[];        // Games won in each set
+  setsWon: PeriodScore;
+  points: { home: string | null; away: string | null } | null;  // Current game, e.g. "30" and "A"
+  serving: MatchSide | null;
+}
+
+export interface GenericMatchState extends MatchStateBase {
+  sport: 'other';
+  score: PeriodScore;
+  periods: PeriodScore[];
+}
+
+export type MatchState = FootballMatchState | BasketballMatchState | TennisMatchState | GenericMatchState;
+
+export type MatchIncidentType = 'goal' | 'red-card' | 'yellow-card' | 'period-end' | 'set-won' | 'match-finished';
+
+export interface MatchIncident {
+  id: string;
+  eventId: number;
+  sportId: number | null;
+  type: MatchIncidentType;
+  side: MatchSide | null;     // Scoring, carded or set-winning side
+  period: number | null;
+  matchTime: string | null;
+  score: PeriodScore | null;  // Score (sets won for tennis) after the incident
+  at: Date;
+}
@@ -4,9 +4,31 @@ import helmet from 'helmet';
 import path from 'path';
 import fs from 'fs';
 import dotenv from 'dotenv';
+import cookieParser from 'cookie-parser';
 import { MeridianbetTokenService } from './services/MeridianbetTokenService';
-import { MeridianbetDataService } from './services/MeridianbetDataService';
+import { MeridianbetDataService, MarketData, PreGameQuery } from './services/MeridianbetDataService';
+import { withMarketAnalytics } from './services/MarketAnalytics';
 import { MeridianbetLiveService } from './services/MeridianbetLiveService';
+import { LiveStateStream, LivePatch } from './services/LiveStateStream';
+import { LiveMatchStateService } from './services/LiveMatchStateService';
+import { EventTrackerService, TrackedEventStatus } from './services/EventTrackerService';
+import { SseClientRegistry, SseClient, SseClientFilter } from './services/SseClientRegistry';
+import { OddsHistoryService, SnapshotSource } from './services/OddsHistoryService';
+import { LineCaptureService } from './services/LineCaptureService';
+import { AlertRulesService } from './services/AlertRulesService';
+import { ExtractionJobService, ExtractionJob } from './services/ExtractionJobService';
+import { DataExportService, ExportFormat } from './services/DataExportService';
+import { UpstreamValidator } from './services/UpstreamValidator';
+import { MeridianbetMapper } from './services/MeridianbetMapper';
+import { SelectionNameResolver } from './services/SelectionNameResolver';
+import { AuthService } from './services/AuthService';
+import { SportCatalogService } from './services/SportCatalogService';
+import { BetshopHttpClient } from './services/BetshopHttpClient';
+import { AdaptiveRateLimiter } from './services/AdaptiveRateLimiter';
+import { ApiKeyService } from './services/ApiKeyService';
+import { WebhookService, WebhookEventType, NewWebhookInput } from './services/WebhookService';
+import { createBrokerPublisher } from './services/BrokerPublisher';
+import { BrokerPublishingService } from './services/BrokerPublishingService';
 
 // Load environment variables
 dotenv.config();
@@ -16,41 +38,182 @@ const PORT = process.env.PORT || 3000;
 
 // Initialize services
 const tokenService = new MeridianbetTokenService();
-const dataService = new MeridianbetDataService(tokenService);
-const liveService = new MeridianbetLiveService(tokenService);
+const upstreamValidator = new UpstreamValidator();
+const httpClient = new BetshopHttpClient(tokenService, upstreamValidator, new AdaptiveRateLimiter());
+const mapper = new MeridianbetMapper();
+const nameResolver = new SelectionNameResolver();
+const sportCatalog = new SportCatalogService(httpClient);
+const dataService = new MeridianbetDataService(httpClient, nameResolver, sportCatalog);
+const liveService = new MeridianbetLiveService(tokenService, httpClient, upstreamValidator, nameResolver);
+const liveStream = new LiveStateStream();
+const matchStateService = new LiveMatchStateService(mapper);
+const lineCapture = new LineCaptureService(dataService);
+const eventTracker = new EventTrackerService(liveService, lineCapture);
+const historyService = new OddsHistoryService();
+const alertService = new AlertRulesService(historyService);
+const jobService = new ExtractionJobService(dataService, liveService, sportCatalog);
+const exportService = new DataExportService();
+const apiKeyService = new ApiKeyService();
+const authService = new AuthService(apiKeyService);
+const sseClients = new SseClientRegistry(sportCatalog);
+const webhookService = new WebhookService();
+const brokerService = new BrokerPublishingService(createBrokerPublisher(), sportCatalog);
 
 // Set up live service callbacks
-liveService.setDataCallback((data) => {
-  console.log('Live data received:', data.type);
-  broadcastToClients({
-    type: 'live-data',
-    payload: data,
+liveService.setDataCallback((update) => {
+  historyService.recordLiveData(update.events, update.markets);
+  historyService.forgetEvents('live', update.removedEventIds);
+  alertService.forgetEvents(update.removedEventIds);
+  lineCapture.recordLiveData(update);
+  sportCatalog.learnFromHeaders(update.events.map(event => event.header));
+  brokerService.publishLiveUpdate(update);
+  matchStateService.remove(update.removedEventIds);
+  matchStateService.update(update.events.map(event => event.header));
+  eventTracker.recordLive(update);
+
+  const patch = liveStream.publish(update);
+  if (patch) {
+    broadcastLivePatch(patch);
+    dispatchLivePatch(patch);
+  }
+});
+
+matchStateService.setIncidentsCallback((incidents) => {
+  for (const incident of incidents) {
+    const message = {
+      type: 'incident',
+      payload: incident,
+      timestamp: new Date().toISOString()
+    };
+
+    publishEvent('live.incident', incident.sportId, message, client =>
+      sseClients.matchesEvent(client.filter, incident.eventId, liveStream.getHeader(incident.eventId)) ? message : null
+    );
+  }
+});
+
+liveService.setChangesCallback((changes) => {
+  alertService.processChanges(changes);
+});
+
+alertService.setAlertCallback((alert) => {
+  const message = {
+    type: 'alert',
+    payload: alert,
     timestamp: new Date().toISOString()
-  });
+  };
+
+  publishEvent('alert', liveStream.getHeader(alert.eventId)?.sport?.sportId ?? null, message, client =>
+    sseClients.matchesEvent(client.filter, alert.eventId, liveStream.getHeader(alert.eventId)) ? message : null
+  );
 });
 
 liveService.setErrorCallback((error) => {
   console.error('Live service error:', error);
-  broadcastToClients({
+  publishEvent('error', null, {
     type: 'error',
     message: error.message,
     timestamp: new Date().toISOString()
   });
 });
 
+// Live jobs cannot keep running once the live service gave up reconnecting
+liveService.setExtractionFailedCallback((error) => {
+  jobService.failLiveJobs(error);
+});
+
+liveService.setConnectionStateCallback((status) => {
+  publishEvent('status', null, {
+    type: 'live-connection',
+    payload: status,
+    timestamp: new Date().toISOString()
+  });
+});
+
+tokenService.setTokenRefreshCallback((tokenData) => {
+  // Only the expiry is published, never the token itself
+  webhookService.dispatch('token.refresh', {
+    type: 'token-refresh',
+    expiresAt: tokenData.expiresAt.toISOString(),
+    extractedAt: tokenData.extractedAt.toISOString(),
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Set up extraction job callbacks
+jobService.setPreGameResultCallback((job, rawResult) => {
+  historyService.recordPreGameData(rawResult.events, rawResult.markets);
+  lineCapture.recordPreGameData(rawResult.events, rawResult.markets);
+  eventTracker.recordPreGame(rawResult.events, rawResult.markets);
+  brokerService.publishPreGameResult(job.sport, rawResult);
+
+  // Convert Map to object for JSON serialization
+  const result = {
+    ...rawResult,
+    markets: serializeMarkets(rawResult.markets)
+  };
+
+  const message = {
+    type: 'data',
+    jobId: job.id,
+    payload: result,
+    timestamp: new Date().toISOString()
+  };
+
+  publishEvent('pregame.snapshot', job.sportId, message, client => filterPreGameMessage(client, job, message));
+});
+
+jobService.setPreGameDeltaCallback((job, delta) => {
+  historyService.recordPreGameData(delta.events, delta.markets);
+  historyService.forgetEvents('pregame', [...delta.removed, ...delta.started]);
+  lineCapture.recordPreGameData(delta.events, delta.markets);
+  eventTracker.recordPreGame(delta.events, delta.markets);
+  eventTracker.removePreGame(delta.removed);
+  brokerService.publishPreGameDelta(job.sport, delta);
+
+  const message = {
+    type: 'data-delta',
+    jobId: job.id,
+    payload: {
+      ...delta,
+      markets: serializeMarkets(delta.markets)
+    },
+    timestamp: new Date().toISOString()
+  };
+
+  publishEvent('pregame.delta', job.sportId, message, client => filterPreGameMessage(client, job, message));
+});
+
+jobService.setLiveStartedCallback((job) => {
+  const message = {
+    type: 'data',
+    jobId: job.id,
+    payload: {
+      message: 'Live extraction started',
+      mode: 'live',
+      sport: job.sport,
+      sportId: job.sportId
+    },
+    timestamp: new Date().toISOString()
+  };
+
+  publishEvent('status', job.sportId, message, client => matchesJob(client, job) ? message : null);
+});
+
+jobService.setErrorCallback((job, error) => {
+  const message = {
+    type: 'error',
+    jobId: job.id,
+    message: error.message,
+    timestamp: new Date().toISOString()
+  };
+
+  publishEvent('error', job.sportId, message, client => matchesJob(client, job) ? message : null);
+});
+
 // Flag to track if server is ready
 let serverReady = false;
 
-// Extraction state management
-let extractionState = {
-  isRunning: false,
-  mode: null as string | null,
-  sport: null as string | null,
-  interval: null as string | null,
-  intervalId: null as NodeJS.Timeout | null,
-  clients: new Set()
-};
-
 // Middleware to block requests until server is ready
 app.use((req, res, next) => {
   if (!serverReady) {
@@ -66,28 +229,212 @@ app.use((req, res, next) => {
 app.use(helmet());
 app.use(cors());
 app.use(express.json());
+app.use(cookieParser());
 app.use(express.static(path.join(__dirname, '../public')));
 
-// Hardcoded password for authentication
-const HARDCODED_PASSWORD = process.env.HARDCODED_PASSWORD || 'meridianbet2024';
+// Login endpoint: verifies credentials and sets the session cookie
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { username, password } = req.body || {};
 
-// Authentication endpoint
-app.post('/api/auth/login', (req, res) => {
-  const { password } = req.body;
-  
-  if (!password) {
-    return res.status(400).json({ error: 'Password is required' });
+    if (!username || !password) {
+      return res.status(400).json({ success: false, error: 'Username and password are required' });
+    }
+
+    const session = await authService.login(String(username), String(password));
+    if (!session) {
+      return res.status(401).json({ success: false, error: 'Invalid username or password' });
+    }
+
+    authService.setSessionCookie(res, session.token);
+    res.json({ success: true, message: 'Login successful', user: session.user });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log in',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
   }
-  
-  if (password === HARDCODED_PASSWORD) {
-    res.json({ success: true, message: 'Login successful' });
-  } else {
-    res.status(401).json({ error: 'Invalid password' });
+});
+
+// Logout endpoint
+app.post('/api/auth/logout', (req, res) => {
+  authService.clearSessionCookie(res);
+  res.json({ success: true, message: 'Logged out' });
+});
+
+// Health check endpoint
+app.get('/api/health', (req, res) => {
+  res.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    tokenValid: tokenService.isTokenValid(),
+    upstreamRateLimiter: httpClient.getRateLimiterStats(),
+    liveConnection: liveService.getConnectionStatus(),
+    broker: brokerService.getStats()
+  });
+});
+
+// Every API route below requires a session
+app.use('/api', authService.authenticate);
+
+// Current session user
+app.get('/api/auth/me', (req, res) => {
+  res.json({ success: true, user: req.user });
+});
+
+// List users
+app.get('/api/users', authService.requireRole('admin'), (req, res) => {
+  res.json({ success: true, users: authService.getUsers() });
+});
+
+// Create user
+app.post('/api/users', authService.requireRole('admin'), async (req, res) => {
+  try {
+    const { username, password, role } = req.body || {};
+    const user = await authService.createUser(username, password, role || 'viewer');
+    res.status(201).json({ success: true, user });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Delete user
+app.delete('/api/users/:username', authService.requireRole('admin'), async (req, res) => {
+  try {
+    const removed = await authService.deleteUser(req.params.username);
+    if (!removed) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    res.json({ success: true, message: 'User removed' });
+  } catch (error) {
+    res.status(409).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List API keys with their limits and usage counters
+app.get('/api/keys', authService.requireRole('admin'), (req, res) => {
+  res.json({ success: true, keys: apiKeyService.getKeys() });
+});
+
+// Create API key; the plain key is only returned in this response
+app.post('/api/keys', authService.requireRole('admin'), async (req, res) => {
+  try {
+    const { key, apiKey } = await apiKeyService.createKey(req.body || {}, req.user!.username);
+    res.status(201).json({ success: true, key, apiKey });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Revoke API key
+app.delete('/api/keys/:keyId', authService.requireRole('admin'), async (req, res) => {
+  try {
+    const key = await apiKeyService.revokeKey(req.params.keyId);
+    if (!key) {
+      return res.status(404).json({ success: false, error: 'API key not found' });
+    }
+    res.json({ success: true, message: 'API key revoked', key });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API key',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Registered webhooks and delivery counters
+app.get('/api/webhooks', authService.requireRole('admin'), (req, res) => {
+  res.json({
+    success: true,
+    webhooks: webhookService.getWebhooks(),
+    stats: webhookService.getStats()
+  });
+});
+
+// Register a webhook; sports are given as catalog slugs, names or IDs
+app.post('/api/webhooks', authService.requireRole('admin'), async (req, res) => {
+  try {
+    const { url, secret, eventTypes, sports } = req.body || {};
+    const input: NewWebhookInput = {
+      url,
+      secret,
+      eventTypes,
+      sportIds: Array.isArray(sports) && sports.length > 0
+        ? sports.map((sport: string | number) => sportCatalog.getSportId(sport))
+        : null
+    };
+
+    const { webhook, secret: webhookSecret } = await webhookService.createWebhook(input, req.user!.username);
+    res.status(201).json({ success: true, webhook, secret: webhookSecret });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Delete a webhook
+app.delete('/api/webhooks/:webhookId', authService.requireRole('admin'), async (req, res) => {
+  try {
+    const deleted = await webhookService.deleteWebhook(req.params.webhookId);
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: 'Webhook not found' });
+    }
+    res.json({ success: true, message: 'Webhook deleted' });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete webhook',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Deliveries that failed after every retry, optionally for one webhook
+app.get('/api/webhooks/dead-letters', authService.requireRole('admin'), (req, res) => {
+  const webhookId = typeof req.query.webhookId === 'string' ? req.query.webhookId : undefined;
+  const deadLetters = webhookService.getDeadLetters(webhookId);
+  res.json({ success: true, count: deadLetters.length, deadLetters });
+});
+
+// Replay dead letters: the given deliveryIds, or all of them (optionally for one webhookId)
+app.post('/api/webhooks/dead-letters/replay', authService.requireRole('admin'), async (req, res) => {
+  try {
+    const { deliveryIds, webhookId } = req.body || {};
+
+    if (deliveryIds !== undefined && (!Array.isArray(deliveryIds) || deliveryIds.some((id: unknown) => typeof id !== 'string'))) {
+      return res.status(400).json({ success: false, error: 'deliveryIds must be a list of delivery IDs' });
+    }
+
+    const queued = await webhookService.replayDeadLetters(deliveryIds, typeof webhookId === 'string' ? webhookId : undefined);
+    res.json({ success: true, message: `Queued ${queued} deliveries for replay`, queued });
+  } catch (error) {
+    console.error('Error replaying dead letters:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay dead letters',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
   }
 });
 
 // Get access token endpoint
-app.get('/api/token', async (req, res) => {
+app.get('/api/token', authService.requireRole('admin'), async (req, res) => {
   try {
     console.log('Token request received');
     
@@ -126,165 +473,335 @@ app.get('/api/token', async (req, res) => {
   }
 });
 
-// Health check endpoint
-app.get('/api/health', (req, res) => {
+// List extraction jobs
+app.get('/api/jobs', (req, res) => {
   res.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    tokenValid: tokenService.isTokenValid()
+    success: true,
+    jobs: jobService.getJobs()
   });
 });
 
-// Start extraction endpoint
-app.post('/api/extraction/start', async (req, res) => {
+// Start extraction job
+app.post('/api/jobs', authService.requireRole('admin'), (req, res) => {
+  startJobFromRequest(req.body, res);
+});
+
+// Inspect extraction job
+app.get('/api/jobs/:jobId', (req, res) => {
+  const job = jobService.getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+  res.json({ success: true, job });
+});
+
+// Stop extraction job
+app.post('/api/jobs/:jobId/stop', authService.requireRole('admin'), (req, res) => {
+  const job = jobService.getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+
   try {
-    const { mode, sport, interval } = req.body;
-    
-    if (extractionState.isRunning) {
-      return res.json({
-        success: false,
-        error: 'Extraction is already running'
-      });
-    }
+    jobService.stopJob(job.id);
+    notifyJobStopped(job);
+    res.json({ success: true, job });
+  } catch (error) {
+    res.status(409).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
 
-    if (!mode || !sport) {
-      return res.status(400).json({
-        success: false,
-        error: 'Mode and sport are required'
-      });
+// Latest data of a job in the canonical event model
+app.get('/api/jobs/:jobId/events', (req, res) => {
+  const job = jobService.getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+
+  let events;
+  if (job.mode === 'pregame') {
+    const result = jobService.getLatestResult(job.id);
+    if (!result) {
+      return res.status(404).json({ success: false, error: job.status === 'running' ? 'No data extracted yet for this job' : 'Job is not running, its data has been released' });
     }
+    events = mapper.mapEvents(result.events, result.markets, 'pregame');
+  } else {
+    const liveData = liveService.getCurrentLiveData(job.sportId);
+    events = mapper.mapEvents(liveData.events, liveData.markets, 'live');
+  }
 
-    console.log(`Starting ${mode} extraction for ${sport} with interval ${interval}`);
-    
-    // Set extraction state
-    extractionState.isRunning = true;
-    extractionState.mode = mode;
-    extractionState.sport = sport;
-    extractionState.interval = interval;
-
-    // Define extraction function
-    const runExtraction = async () => {
-      try {
-        console.log(`Running ${mode} extraction for ${sport}`);
-        
-        let result;
-        if (mode === 'pregame') {
-          const rawResult = await dataService.extractPreGameData(sport as 'football' | 'basketball' | 'tennis');
-          
-          // Convert Map to object for JSON serialization (same as in /api/pregame/extract)
-          result = {
-            ...rawResult,
-            markets: Object.fromEntries(rawResult.markets)
-          };
-        } else if (mode === 'live') {
-          // For live mode, start live service
-          const sportId = getSportId(sport);
-          await liveService.startLiveExtraction(sportId);
-          result = { 
-            message: 'Live extraction started',
-            mode: 'live',
-            sport: sport,
-            sportId: sportId
-          };
-        } else {
-          result = { message: 'Unknown mode' };
-        }
-
-        // Send data to all connected clients
-        broadcastToClients({
-          type: 'data',
-          payload: result,
-          timestamp: new Date().toISOString()
-        });
+  res.json({
+    success: true,
+    jobId: job.id,
+    count: events.length,
+    events
+  });
+});
 
-      } catch (error) {
-        console.error('Extraction error:', error);
-        broadcastToClients({
-          type: 'error',
-          message: error instanceof Error ? error.message : 'Unknown error',
-          timestamp: new Date().toISOString()
-        });
-      }
-    };
+// Learned market and selection names keyed by gameTemplateId and selection index
+app.get('/api/selection-names', (req, res) => {
+  res.json({
+    success: true,
+    dictionary: nameResolver.getDictionary()
+  });
+});
 
-    // Run extraction immediately
-    runExtraction();
+// Unexpected fields, missing fields and type mismatches seen in upstream payloads
+app.get('/api/model/validation', (req, res) => {
+  const issues = upstreamValidator.getReport();
+  res.json({
+    success: true,
+    count: issues.length,
+    issues
+  });
+});
 
-    // Start periodic extraction only for pre-game mode
-    // Live mode uses WebSocket for real-time updates, no need for periodic extraction
-    if (mode === 'pregame') {
-      const intervalMs = getIntervalMs(interval);
-      extractionState.intervalId = setInterval(runExtraction, intervalMs);
+// Export the latest data of a job as one row per selection
+app.get('/api/jobs/:jobId/export', async (req, res) => {
+  try {
+    const job = jobService.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
     }
 
-    res.json({
-      success: true,
-      message: `Started ${mode} extraction for ${sport}`
-    });
+    const format = String(req.query.format || 'csv') as ExportFormat;
+    if (!DataExportService.CONTENT_TYPES[format]) {
+      return res.status(400).json({ success: false, error: `Unsupported export format: ${format}` });
+    }
+
+    let rows;
+    if (job.mode === 'pregame') {
+      const result = jobService.getLatestResult(job.id);
+      if (!result) {
+        return res.status(404).json({ success: false, error: job.status === 'running' ? 'No data extracted yet for this job' : 'Job is not running, its data has been released' });
+      }
+      rows = exportService.flatten(result.events, result.markets, job.sport);
+    } else {
+      const liveData = liveService.getCurrentLiveData(job.sportId);
+      rows = exportService.flatten(liveData.events, liveData.markets, job.sport);
+    }
+
+    const body = await exportService.serialize(rows, format);
+    const fileName = `meridianbet-${job.mode}-${job.sport}-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+
+    res.setHeader('Content-Type', DataExportService.CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(body);
 
   } catch (error) {
-    console.error('Error starting extraction:', error);
+    console.error('Error exporting data:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to start extraction',
+      error: 'Failed to export data',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// Stop extraction endpoint
-app.post('/api/extraction/stop', async (req, res) => {
+// Start extraction endpoint (kept for the single-job UI flow, creates a job)
+app.post('/api/extraction/start', authService.requireRole('admin'), (req, res) => {
+  startJobFromRequest(req.body, res);
+});
+
+// Stop extraction endpoint: stops the given job, or every running job when no jobId is sent
+app.post('/api/extraction/stop', authService.requireRole('admin'), (req, res) => {
   try {
-    if (!extractionState.isRunning) {
+    const { jobId } = req.body || {};
+
+    if (jobId) {
+      const job = jobService.stopJob(jobId);
+      notifyJobStopped(job);
+      return res.json({
+        success: true,
+        message: 'Extraction stopped',
+        jobs: [job]
+      });
+    }
+
+    const stoppedJobs = jobService.stopAll();
+    if (stoppedJobs.length === 0) {
       return res.json({
         success: false,
         error: 'No extraction is currently running'
       });
     }
 
-    console.log('Stopping extraction...');
-    
-    // Clear interval
-    if (extractionState.intervalId) {
-      clearInterval(extractionState.intervalId);
-      extractionState.intervalId = null;
-    }
+    stoppedJobs.forEach(job => notifyJobStopped(job));
 
-    // Stop live service if running
-    if (extractionState.mode === 'live') {
-      liveService.stopLiveExtraction();
-    }
+    res.json({
+      success: true,
+      message: 'Extraction stopped',
+      jobs: stoppedJobs
+    });
+
+  } catch (error) {
+    console.error('Error stopping extraction:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to stop extraction',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
 
-    // Reset state
-    extractionState.isRunning = false;
-    extractionState.mode = null;
-    extractionState.sport = null;
-    extractionState.interval = null;
+// On-demand pre-game extraction: fetches and returns the data in one request, without creating a job
+app.post('/api/pregame/extract', authService.requireRole('admin'), async (req, res) => {
+  const { sport } = req.body || {};
+  const sportEntry = sport ? sportCatalog.getSport(sport) : undefined;
 
-    // Notify clients
-    broadcastToClients({
-      type: 'status',
-      message: 'Extraction stopped',
-      timestamp: new Date().toISOString()
+  if (!sportEntry) {
+    return res.status(400).json({
+      success: false,
+      error: sport ? `Unknown sport: ${sport}` : 'Sport is required'
     });
+  }
+
+  let query: PreGameQuery;
+  try {
+    query = parsePreGameQuery(req.body);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid query'
+    });
+  }
+
+  try {
+    const rawResult = await dataService.extractPreGameData(sportEntry.slug, query);
+    historyService.recordPreGameData(rawResult.events, rawResult.markets);
+    lineCapture.recordPreGameData(rawResult.events, rawResult.markets);
+    eventTracker.recordPreGame(rawResult.events, rawResult.markets);
+    brokerService.publishPreGameResult(sportEntry.slug, rawResult);
 
     res.json({
       success: true,
-      message: 'Extraction stopped'
+      message: `Extracted ${rawResult.summary.totalEvents} ${sportEntry.name} events`,
+      query,
+      data: {
+        ...rawResult,
+        markets: serializeMarkets(rawResult.markets)
+      }
     });
-
   } catch (error) {
-    console.error('Error stopping extraction:', error);
+    console.error('Error extracting pre-game data:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to stop extraction',
+      error: 'Failed to extract pre-game data',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
 });
 
-// SSE stream endpoint
+// Sports offered upstream, as discovered by the sport catalog
+app.get('/api/sports', (req, res) => {
+  res.json({
+    success: true,
+    sports: sportCatalog.getSports()
+  });
+});
+
+// Time windows accepted by pre-game queries
+app.get('/api/pregame/time-filters', (req, res) => {
+  res.json({
+    success: true,
+    timeFilters: dataService.getTimeFilters(),
+    verifiedTimeFilters: dataService.getVerifiedTimeFilters()
+  });
+});
+
+// Helper function to parse time window, league/region filters and page limit of a pre-game query
+function parsePreGameQuery(body: any): PreGameQuery {
+  const { time, leagueIds, regionIds, maxPages } = body || {};
+
+  const parseIds = (value: any, name: string): number[] | undefined => {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    const ids = (Array.isArray(value) ? value : [value]).map(id => Number(id));
+    if (ids.some(id => !Number.isInteger(id))) {
+      throw new Error(`'${name}' must be a list of numeric IDs`);
+    }
+    return ids;
+  };
+
+  if (time !== undefined && (typeof time !== 'string' || !dataService.isSupportedTimeFilter(time))) {
+    throw new Error(`Invalid time window: ${time} (expected one of ${dataService.getTimeFilters().join(', ')})`);
+  }
+
+  if (maxPages !== undefined && (!Number.isInteger(maxPages) || maxPages < 1)) {
+    throw new Error(`'maxPages' must be a positive integer`);
+  }
+
+  return {
+    time,
+    leagueIds: parseIds(leagueIds, 'leagueIds'),
+    regionIds: parseIds(regionIds, 'regionIds'),
+    maxPages
+  };
+}
+
+// Helper function to validate a start request and create the job
+function startJobFromRequest(body: any, res: express.Response) {
+  const { mode, sport, interval, incremental } = body || {};
+
+  if (!mode || !sport) {
+    return res.status(400).json({
+      success: false,
+      error: 'Mode and sport are required'
+    });
+  }
+
+  if (mode === 'pregame' && interval !== undefined && interval !== null && (typeof interval !== 'string' || !jobService.isSupportedInterval(interval))) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid interval: ${interval} (expected one of ${jobService.getIntervals().join(', ')})`
+    });
+  }
+
+  try {
+    const job = jobService.startJob(mode, sport, interval, incremental === true);
+    res.json({
+      success: true,
+      message: `Started ${mode} extraction for ${sport}`,
+      jobId: job.id,
+      job
+    });
+  } catch (error) {
+    console.error('Error starting extraction:', error);
+    res.status(409).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start extraction'
+    });
+  }
+}
+
+// Helper function to notify clients that a job was stopped
+function notifyJobStopped(job: ExtractionJob) {
+  const message = {
+    type: 'status',
+    jobId: job.id,
+    message: `Extraction stopped (${job.mode} ${job.sport})`,
+    timestamp: new Date().toISOString()
+  };
+
+  publishEvent('status', job.sportId, message, client => matchesJob(client, job) ? message : null);
+}
+
+// SSE stream endpoint. Optional filters: sport, leagueIds, eventIds and marketTypes
 app.get('/api/extraction/stream', (req, res) => {
+  let filter: SseClientFilter;
+  try {
+    filter = sseClients.parseFilter(req.query);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid stream filter'
+    });
+  }
+
   // Set SSE headers
   res.writeHead(200, {
     'Content-Type': 'text/event-stream',
@@ -294,60 +811,434 @@ app.get('/api/extraction/stream', (req, res) => {
     'Access-Control-Allow-Headers': 'Cache-Control'
   });
 
-  // Add client to the set
-  const clientId = Date.now();
-  extractionState.clients.add({ id: clientId, res });
-
-  console.log(`SSE client connected: ${clientId}`);
+  // The registry removes the client again when the connection closes
+  const client = sseClients.register(res, req.user!.username, filter);
 
   // Send initial status
-  res.write(`data: ${JSON.stringify({
+  sseClients.write(client, formatSseMessage({
     type: 'status',
-    message: extractionState.isRunning ? 'Extraction is running' : 'Extraction is stopped',
+    message: jobService.getRunningJobs().length > 0
+      ? `${jobService.getRunningJobs().length} extraction job(s) running`
+      : 'Extraction is stopped',
     timestamp: new Date().toISOString()
-  })}\n\n`);
+  }));
+
+  // Resume live patches after the last one the client saw, or start it from a full snapshot.
+  // EventSource sends Last-Event-ID on its own reconnects; new connections can pass ?lastEventId=
+  const lastEventId = req.get('Last-Event-ID') || (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : null);
+  const missedPatches = lastEventId ? liveStream.getPatchesSince(lastEventId) : null;
+
+  if (missedPatches) {
+    console.log(`SSE client ${client.id} resumed from ${lastEventId} with ${missedPatches.length} missed patches`);
+    missedPatches.forEach(patch => sseClients.write(client, formatLivePatch(filterLivePatch(client, patch))));
+  } else {
+    sendLiveSnapshot(client, lastEventId !== null);
+  }
+});
 
-  // Handle client disconnect
-  req.on('close', () => {
-    console.log(`SSE client disconnected: ${clientId}`);
-    extractionState.clients.delete({ id: clientId, res });
+// Connected SSE clients and their filters
+app.get('/api/extraction/stream/clients', authService.requireRole('admin'), (req, res) => {
+  res.json({
+    success: true,
+    clients: sseClients.getClientInfo()
   });
 });
 
-// Helper function to broadcast to all connected clients
-function broadcastToClients(data: any) {
-  const message = `data: ${JSON.stringify(data)}\n\n`;
-  
-  extractionState.clients.forEach((client: any) => {
-    try {
-      client.res.write(message);
-    } catch (error) {
-      console.error('Error sending SSE message:', error);
-      extractionState.clients.delete(client);
+// Price history for a single selection
+app.get('/api/history/selections/:selectionId', (req, res) => {
+  try {
+    const query = parseHistoryQuery(req.query);
+    const history = historyService.getSelectionHistory(req.params.selectionId, query);
+
+    res.json({
+      success: true,
+      selectionId: req.params.selectionId,
+      count: history.length,
+      history
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Match state and incidents of a live event
+app.get('/api/live/events/:eventId/state', (req, res) => {
+  const eventId = parseInt(req.params.eventId);
+  if (isNaN(eventId)) {
+    return res.status(400).json({ success: false, error: 'Invalid event ID' });
+  }
+
+  const state = matchStateService.getState(eventId);
+  if (!state) {
+    return res.status(404).json({ success: false, error: 'Live event not found' });
+  }
+
+  res.json({
+    success: true,
+    state,
+    incidents: matchStateService.getIncidents(eventId)
+  });
+});
+
+// Events that left live tracking: finished, cancelled or removed from the live offer
+app.get('/api/live/archive', (req, res) => {
+  try {
+    const sportId = req.query.sport ? sportCatalog.getSportId(String(req.query.sport)) : undefined;
+    const events = liveService.getArchivedEvents(sportId);
+
+    res.json({
+      success: true,
+      count: events.length,
+      events
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Final state of an archived live event
+app.get('/api/live/archive/:eventId', (req, res) => {
+  const eventId = parseInt(req.params.eventId);
+  if (isNaN(eventId)) {
+    return res.status(400).json({ success: false, error: 'Invalid event ID' });
+  }
+
+  const event = liveService.getArchivedEvent(eventId);
+  if (!event) {
+    return res.status(404).json({ success: false, error: 'Archived event not found' });
+  }
+
+  res.json({ success: true, event });
+});
+
+// Events followed from pre-game into live play
+app.get('/api/tracker/events', (req, res) => {
+  try {
+    const status = req.query.status as TrackedEventStatus | undefined;
+    if (status && !['pregame', 'live', 'ended'].includes(status)) {
+      return res.status(400).json({ success: false, error: 'status must be pregame, live or ended' });
+    }
+
+    const sportId = req.query.sport ? sportCatalog.getSportId(String(req.query.sport)) : undefined;
+    const events = eventTracker.getEvents({ status, sportId });
+
+    res.json({
+      success: true,
+      count: events.length,
+      events
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Opening odds, closing odds and live trajectory of a tracked event
+app.get('/api/tracker/events/:eventId', (req, res) => {
+  const eventId = parseInt(req.params.eventId);
+  if (isNaN(eventId)) {
+    return res.status(400).json({ success: false, error: 'Invalid event ID' });
+  }
+
+  const event = eventTracker.getEvent(eventId);
+  if (!event) {
+    return res.status(404).json({ success: false, error: 'Tracked event not found' });
+  }
+
+  res.json({ success: true, event });
+});
+
+// All recorded snapshots for an event
+app.get('/api/history/events/:eventId', (req, res) => {
+  try {
+    const eventId = parseInt(req.params.eventId);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ success: false, error: 'Invalid event ID' });
     }
+
+    const query = parseHistoryQuery(req.query);
+    const snapshots = historyService.getEventSnapshots(eventId, query);
+
+    res.json({
+      success: true,
+      eventId,
+      ...snapshots
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Opening, closing and current line of every selection of an event
+app.get('/api/lines/events/:eventId', (req, res) => {
+  const eventId = parseInt(req.params.eventId);
+  if (isNaN(eventId)) {
+    return res.status(400).json({ success: false, error: 'Invalid event ID' });
+  }
+
+  const event = lineCapture.getEventLines(eventId);
+  if (!event) {
+    return res.status(404).json({ success: false, error: 'No lines captured for this event' });
+  }
+
+  res.json({ success: true, event });
+});
+
+// Opening, closing and current lines of a league's events, optionally by start time range
+app.get('/api/lines/leagues/:leagueId', (req, res) => {
+  try {
+    const leagueId = parseInt(req.params.leagueId);
+    if (isNaN(leagueId)) {
+      return res.status(400).json({ success: false, error: 'Invalid league ID' });
+    }
+
+    const { from, to } = parseHistoryQuery(req.query);
+    const events = lineCapture.getLeagueLines(leagueId, { from, to });
+
+    res.json({
+      success: true,
+      leagueId,
+      count: events.length,
+      events
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List alert rules
+app.get('/api/alerts/rules', (req, res) => {
+  res.json({
+    success: true,
+    rules: alertService.getRules()
   });
-}
+});
+
+// Create alert rule
+app.post('/api/alerts/rules', authService.requireRole('admin'), async (req, res) => {
+  try {
+    const rule = await alertService.addRule(req.body);
+    res.status(201).json({
+      success: true,
+      rule
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Delete alert rule
+app.delete('/api/alerts/rules/:ruleId', authService.requireRole('admin'), async (req, res) => {
+  try {
+    const removed = await alertService.removeRule(req.params.ruleId);
+    if (!removed) {
+      return res.status(404).json({ success: false, error: 'Rule not found' });
+    }
+    res.json({ success: true, message: 'Rule removed' });
+  } catch (error) {
+    console.error('Error removing alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove alert rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Recorded alerts
+app.get('/api/alerts', (req, res) => {
+  try {
+    const { from, to } = parseHistoryQuery(req.query);
+    const eventId = parseIntegerQuery(req.query.eventId, 'eventId');
+    const limit = parseIntegerQuery(req.query.limit, 'limit');
+
+    res.json({
+      success: true,
+      alerts: historyService.getAlerts({ from, to, eventId, limit })
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Helper function to parse from/to/source history query parameters
+function parseHistoryQuery(query: any): { from?: Date; to?: Date; source?: SnapshotSource } {
+  const parseTime = (value: any, name: string): Date | undefined => {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    const date = /^\d+$/.test(String(value)) ? new Date(parseInt(value)) : new Date(String(value));
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid '${name}' time: ${value}`);
+    }
+    return date;
+  };
+
+  const source = query.source;
+  if (source !== undefined && source !== 'pregame' && source !== 'live') {
+    throw new Error(`Invalid source: ${source}`);
+  }
 
-// Helper function to get interval in milliseconds
-function getIntervalMs(interval: string): number {
-  const intervals: { [key: string]: number } = {
-    '1min': 60 * 1000,
-    '5min': 5 * 60 * 1000,
-    '15min': 15 * 60 * 1000,
-    '30min': 30 * 60 * 1000,
-    '1hour': 60 * 60 * 1000
+  return {
+    from: parseTime(query.from, 'from'),
+    to: parseTime(query.to, 'to'),
+    source
   };
-  return intervals[interval] || 60 * 1000; // Default to 1 minute
 }
 
-// Helper function to get sport ID
-function getSportId(sport: string): number {
-  switch (sport) {
-    case 'football': return 58;
-    case 'basketball': return 55;
-    case 'tennis': return 56;
-    default: return 58; // Default to football
+// Helper function to parse an optional positive integer query parameter
+function parseIntegerQuery(value: any, name: string): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (!/^\d+$/.test(String(value)) || parseInt(String(value)) < 1) {
+    throw new Error(`Invalid '${name}': ${value}`);
+  }
+  return parseInt(String(value));
+}
+
+// Helper function to format an SSE message; only live patches and snapshots carry an id to resume from
+function formatSseMessage(data: any, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+}
+
+function formatLivePatch(patch: LivePatch): string {
+  return formatSseMessage({ type: 'live-patch', payload: patch, timestamp: new Date().toISOString() }, patch.id);
+}
+
+// Helper function to send the full live state; resync is set when the client asked to resume but could not
+function sendLiveSnapshot(client: SseClient, resync: boolean) {
+  const snapshot = liveStream.getSnapshot();
+  const payload = sseClients.isFiltered(client.filter)
+    ? { ...snapshot, ...sseClients.filterEvents(client.filter, snapshot.events, snapshot.markets) }
+    : snapshot;
+
+  sseClients.write(client, formatSseMessage({ type: 'live-snapshot', resync, payload, timestamp: new Date().toISOString() }, snapshot.id));
+}
+
+// Helper function to keep the patch operations a client subscribed to. Filtered clients still get
+// every sequence number, possibly with no operations, so they can detect gaps.
+function filterLivePatch(client: SseClient, patch: LivePatch): LivePatch {
+  if (!sseClients.isFiltered(client.filter)) {
+    return patch;
+  }
+
+  const ops = patch.ops.filter(op => {
+    if (!sseClients.matchesEvent(client.filter, op.eventId, liveStream.getHeader(op.eventId))) {
+      return false;
+    }
+    if (op.op === 'market') {
+      return sseClients.matchesMarketGroup(client.filter, op.market);
+    }
+    if (op.op === 'selection') {
+      const group = liveStream.getMarketGroup(op.eventId, op.gameTemplateId);
+      return !group || sseClients.matchesMarketGroup(client.filter, group);
+    }
+    return true;
+  });
+
+  return { ...patch, ops };
+}
+
+// Helper function to broadcast a live patch. Clients whose socket buffer is still full have fallen
+// behind: they skip patches until it drains and then get a fresh snapshot.
+function broadcastLivePatch(patch: LivePatch) {
+  const message = formatLivePatch(patch);
+
+  sseClients.getClients().forEach(client => {
+    if (client.resyncPending) {
+      return;
+    }
+
+    if (client.res.writableNeedDrain) {
+      console.warn(`SSE client ${client.id} fell behind at live patch ${patch.seq}, resyncing once drained`);
+      client.resyncPending = true;
+      client.res.once('drain', () => {
+        client.resyncPending = false;
+        sendLiveSnapshot(client, true);
+      });
+      return;
+    }
+
+    sseClients.write(client, sseClients.isFiltered(client.filter) ? formatLivePatch(filterLivePatch(client, patch)) : message);
+  });
+}
+
+// Helper function to check whether a client's sport filter accepts a job's messages
+function matchesJob(client: SseClient, job: ExtractionJob): boolean {
+  return client.filter.sportId === null || client.filter.sportId === job.sportId;
+}
+
+// Helper function to narrow a pre-game result or delta to the events and market groups a client subscribed to
+function filterPreGameMessage(client: SseClient, job: ExtractionJob, message: any): any | null {
+  if (!matchesJob(client, job)) {
+    return null;
+  }
+  if (!sseClients.isFiltered(client.filter)) {
+    return message;
   }
+
+  return {
+    ...message,
+    payload: {
+      ...message.payload,
+      ...sseClients.filterEvents(client.filter, message.payload.events, message.payload.markets)
+    }
+  };
+}
+
+// Helper function to send a message to stream clients and to the webhooks subscribed to its event type and sport
+function publishEvent(eventType: WebhookEventType, sportId: number | null, data: any, select?: (client: SseClient) => any | null) {
+  broadcastToClients(data, select);
+  webhookService.dispatch(eventType, data, sportId);
+}
+
+// Helper function to deliver a live patch to webhooks, split by sport so sport filters apply.
+// Operations on events that are already gone have no known sport and go to every live.delta webhook.
+function dispatchLivePatch(patch: LivePatch) {
+  const opsBySport = new Map<number | null, LivePatch['ops']>();
+
+  patch.ops.forEach(op => {
+    const sportId = liveStream.getHeader(op.eventId)?.sport?.sportId ?? null;
+    opsBySport.set(sportId, [...(opsBySport.get(sportId) || []), op]);
+  });
+
+  opsBySport.forEach((ops, sportId) => {
+    webhookService.dispatch('live.delta', { type: 'live-patch', payload: { ...patch, ops }, timestamp: new Date().toISOString() }, sportId);
+  });
+}
+
+// Helper function to broadcast to connected clients. select can narrow the message per client or
+// return null to skip a client; clients that get the message unchanged share one serialization.
+function broadcastToClients(data: any, select?: (client: SseClient) => any | null) {
+  const message = formatSseMessage(data);
+
+  sseClients.getClients().forEach(client => {
+    const selected = select ? select(client) : data;
+    if (selected) {
+      sseClients.write(client, selected === data ? message : formatSseMessage(selected));
+    }
+  });
 }
 
 // Serve the main HTML file
@@ -355,9 +1246,23 @@ app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, '../public/index.html'));
 });
 
+// Helper function to convert markets keyed by event ID to a plain object, with the analytics of every market
+function serializeMarkets(markets: Map<number, MarketData[]>): Record<number, MarketData[]> {
+  return Object.fromEntries(Array.from(markets, ([eventId, groups]) => [eventId, withMarketAnalytics(groups)]));
+}
+
 // Initialize token service and extract tokens on startup
 async function initializeApp(): Promise<boolean> {
   try {
+    await authService.initialize();
+    await apiKeyService.load();
+    await webhookService.load();
+    historyService.initialize();
+    lineCapture.initialize();
+    await alertService.loadRules();
+    await nameResolver.load();
+    await sportCatalog.load();
+
     console.log('Initializing token service...');
     
     // First, try to load tokens from file
@@ -383,6 +1288,10 @@ async function initializeApp(): Promise<boolean> {
     // Initialize the service (this will start automatic refresh)
     await tokenService.initialize();
     console.log('Token service initialized successfully');
+
+    // Sports are discovered in the background, the built-in and cached ones are usable meanwhile
+    sportCatalog.startDiscovery();
+    eventTracker.start();
     
     return true;
   } catch (error) {
@@ -395,14 +1304,34 @@ async function initializeApp(): Promise<boolean> {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Shutting down gracefully...');
+  jobService.stopAll();
+  eventTracker.close();
   liveService.close();
+  sseClients.close();
+  webhookService.close();
+  await brokerService.close();
+  await nameResolver.save();
+  await apiKeyService.save();
+  await sportCatalog.close();
+  historyService.close();
+  lineCapture.close();
   await tokenService.close();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('Shutting down gracefully...');
+  jobService.stopAll();
+  eventTracker.close();
   liveService.close();
+  sseClients.close();
+  webhookService.close();
+  await brokerService.close();
+  await nameResolver.save();
+  await apiKeyService.save();
+  await sportCatalog.close();
+  historyService.close();
+  lineCapture.close();
   await tokenService.close();
   process.exit(0);
 });
@@ -0,0 +1,133 @@
+export interface RequestOutcome {
+  latencyMs: number;
+  status: number | null;  // null when the request failed without a response
+}
+
+export interface RateLimiterStats {
+  requestsPerSecond: number;
+  concurrency: number;
+  active: number;
+  queued: number;
+  completed: number;
+  throttled: number;
+  averageLatencyMs: number | null;
+}
+
+/**
+ * Token bucket plus a bounded concurrency pool for upstream requests. Rate and concurrency grow
+ * additively while responses are fast and successful, and are cut multiplicatively on 429, 5xx,
+ * network errors or latency above the target, so throughput settles just below what the upstream tolerates.
+ */
+export class AdaptiveRateLimiter {
+  private readonly MIN_RPS = parseFloat(process.env.API_RATE_LIMIT_MIN_RPS || '1');
+  private readonly MAX_RPS = parseFloat(process.env.API_RATE_LIMIT_MAX_RPS || '20');
+  private readonly MAX_CONCURRENCY = parseInt(process.env.API_MAX_CONCURRENCY || '10');
+  private readonly TARGET_LATENCY = parseInt(process.env.API_TARGET_LATENCY || '1500');
+  private readonly BACKOFF_COOLDOWN = 5000;
+
+  private rate = parseFloat(process.env.API_RATE_LIMIT_INITIAL_RPS || '5');
+  private concurrency = Math.min(4, this.MAX_CONCURRENCY);
+  private tokens = 1;
+  private lastRefill = Date.now();
+  private cooldownUntil = 0;
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private pumpTimer: NodeJS.Timeout | null = null;
+
+  private completed = 0;
+  private throttled = 0;
+  private averageLatency: number | null = null;
+
+  /**
+   * Wait for a free slot and a token. The returned function must be called with the outcome once the request is done.
+   */
+  public async acquire(): Promise<(outcome: RequestOutcome) => void> {
+    await new Promise<void>(resolve => {
+      this.queue.push(resolve);
+      this.pump();
+    });
+
+    let released = false;
+    return (outcome: RequestOutcome) => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+      this.adapt(outcome);
+      this.pump();
+    };
+  }
+
+  public getStats(): RateLimiterStats {
+    return {
+      requestsPerSecond: Math.round(this.rate * 100) / 100,
+      concurrency: Math.floor(this.concurrency),
+      active: this.active,
+      queued: this.queue.length,
+      completed: this.completed,
+      throttled: this.throttled,
+      averageLatencyMs: this.averageLatency !== null ? Math.round(this.averageLatency) : null
+    };
+  }
+
+  private pump(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.active < Math.floor(this.concurrency) && this.tokens >= 1) {
+      this.tokens--;
+      this.active++;
+      this.queue.shift()!();
+    }
+
+    // Wake up when the next token is due; freed slots pump on release
+    if (this.queue.length > 0 && this.tokens < 1 && !this.pumpTimer) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+      this.pumpTimer = setTimeout(() => {
+        this.pumpTimer = null;
+        this.pump();
+      }, waitMs);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const burst = Math.max(1, Math.floor(this.concurrency));
+    this.tokens = Math.min(burst, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  private adapt(outcome: RequestOutcome): void {
+    const now = Date.now();
+    this.completed++;
+    this.averageLatency = this.averageLatency === null
+      ? outcome.latencyMs
+      : this.averageLatency * 0.8 + outcome.latencyMs * 0.2;
+
+    const overloaded = outcome.status === null || outcome.status === 429 || outcome.status >= 500;
+
+    if (overloaded) {
+      this.throttled++;
+      // Several in-flight requests usually fail together; back off once per cooldown
+      if (now >= this.cooldownUntil) {
+        this.rate = Math.max(this.MIN_RPS, this.rate / 2);
+        this.concurrency = Math.max(1, this.concurrency / 2);
+        this.cooldownUntil = now + this.BACKOFF_COOLDOWN;
+        console.warn(`Upstream ${outcome.status ?? 'network error'}, backing off to ${this.rate.toFixed(2)} req/s with ${Math.floor(this.concurrency)} concurrent requests`);
+      }
+      return;
+    }
+
+    if (this.averageLatency > this.TARGET_LATENCY) {
+      this.rate = Math.max(this.MIN_RPS, this.rate * 0.95);
+      this.concurrency = Math.max(1, this.concurrency - 1 / this.concurrency);
+      return;
+    }
+
+    if (now >= this.cooldownUntil) {
+      // Additive increase: roughly +1 req/s and +1 slot per full window of successful requests
+      this.rate = Math.min(this.MAX_RPS, this.rate + 1 / this.rate);
+      this.concurrency = Math.min(this.MAX_CONCURRENCY, this.concurrency + 1 / this.concurrency);
+    }
+  }
+}
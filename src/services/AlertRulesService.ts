@@ -0,0 +1,309 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { OddsChange } from './MeridianbetLiveService';
+import { OddsHistoryService, AlertRecord } from './OddsHistoryService';
+
+export type AlertRuleCondition =
+  | { type: 'price-move'; thresholdPercent: number; windowMs: number }
+  | { type: 'market-state-change'; from?: string; to?: string }
+  | { type: 'new-market' };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  eventId?: number;
+  selectionId?: string;
+  gameTemplateId?: number;
+  condition: AlertRuleCondition;
+  createdAt: string;
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'createdAt' | 'enabled'> & { enabled?: boolean };
+
+export class AlertRulesService {
+  private rules: Map<string, AlertRule> = new Map();
+  private readonly RULES_FILE_PATH = process.env.ALERT_RULES_PATH || path.join(process.cwd(), 'data', 'alert-rules.json');
+
+  // Recent prices per rule, event and selection, used to evaluate price-move windows
+  private priceWindows: Map<string, Array<{ price: number; at: number }>> = new Map();
+  private onAlertCallback: ((alert: AlertRecord) => void) | null = null;
+
+  constructor(
+    private historyService: OddsHistoryService
+  ) { }
+
+  /**
+   * Set callback for fired alerts
+   */
+  public setAlertCallback(callback: (alert: AlertRecord) => void): void {
+    this.onAlertCallback = callback;
+  }
+
+  /**
+   * Load rules from disk
+   */
+  public async loadRules(): Promise<void> {
+    try {
+      if (!fs.existsSync(this.RULES_FILE_PATH)) {
+        console.log('No alert rules file found, starting with no rules');
+        return;
+      }
+
+      const fileContent = await fs.promises.readFile(this.RULES_FILE_PATH, 'utf8');
+      const rules: AlertRule[] = JSON.parse(fileContent);
+      this.rules = new Map(rules.map(rule => [rule.id, rule]));
+      console.log(`Loaded ${this.rules.size} alert rules`);
+    } catch (error) {
+      console.error('Failed to load alert rules:', error);
+    }
+  }
+
+  private async saveRules(): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(this.RULES_FILE_PATH), { recursive: true });
+      await fs.promises.writeFile(
+        this.RULES_FILE_PATH,
+        JSON.stringify(Array.from(this.rules.values()), null, 2),
+        'utf8'
+      );
+    } catch (error) {
+      console.error('Failed to save alert rules:', error);
+    }
+  }
+
+  public getRules(): AlertRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Validate and add a new rule
+   */
+  public async addRule(input: AlertRuleInput): Promise<AlertRule> {
+    this.validateRule(input);
+
+    const rule: AlertRule = {
+      id: randomUUID(),
+      name: input.name,
+      enabled: input.enabled !== false,
+      eventId: input.eventId,
+      selectionId: input.selectionId,
+      gameTemplateId: input.gameTemplateId,
+      condition: input.condition,
+      createdAt: new Date().toISOString()
+    };
+
+    this.rules.set(rule.id, rule);
+    await this.saveRules();
+    console.log(`Added alert rule ${rule.id} (${rule.condition.type}): ${rule.name}`);
+    return rule;
+  }
+
+  public async removeRule(ruleId: string): Promise<boolean> {
+    const removed = this.rules.delete(ruleId);
+    if (removed) {
+      for (const key of this.priceWindows.keys()) {
+        if (key.startsWith(`${ruleId}:`)) {
+          this.priceWindows.delete(key);
+        }
+      }
+      await this.saveRules();
+      console.log(`Removed alert rule ${ruleId}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Drop the price windows of events that left the live offer
+   */
+  public forgetEvents(eventIds: number[]): void {
+    if (eventIds.length === 0) {
+      return;
+    }
+
+    const removed = new Set(eventIds.map(String));
+    for (const key of this.priceWindows.keys()) {
+      if (removed.has(key.split(':')[1])) {
+        this.priceWindows.delete(key);
+      }
+    }
+  }
+
+  private validateRule(input: AlertRuleInput): void {
+    if (!input || typeof input.name !== 'string' || input.name.trim() === '') {
+      throw new Error('Rule name is required');
+    }
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+      throw new Error('enabled must be a boolean');
+    }
+    if (input.eventId !== undefined && !Number.isInteger(input.eventId)) {
+      throw new Error('eventId must be an integer');
+    }
+    if (input.selectionId !== undefined && (typeof input.selectionId !== 'string' || input.selectionId === '')) {
+      throw new Error('selectionId must be a non-empty string');
+    }
+    if (input.gameTemplateId !== undefined && !Number.isInteger(input.gameTemplateId)) {
+      throw new Error('gameTemplateId must be an integer');
+    }
+
+    const condition = input.condition;
+    if (!condition || typeof condition !== 'object') {
+      throw new Error('Rule condition is required');
+    }
+
+    switch (condition.type) {
+      case 'price-move':
+        if (!Number.isFinite(condition.thresholdPercent) || condition.thresholdPercent <= 0) {
+          throw new Error('price-move rules require a positive thresholdPercent');
+        }
+        if (!Number.isFinite(condition.windowMs) || condition.windowMs <= 0) {
+          throw new Error('price-move rules require a positive windowMs');
+        }
+        break;
+      case 'market-state-change':
+        if (condition.from !== undefined && (typeof condition.from !== 'string' || condition.from === '')) {
+          throw new Error('market-state-change from must be a non-empty state name');
+        }
+        if (condition.to !== undefined && (typeof condition.to !== 'string' || condition.to === '')) {
+          throw new Error('market-state-change to must be a non-empty state name');
+        }
+        if (condition.from !== undefined && condition.from === condition.to) {
+          throw new Error('market-state-change from and to must differ');
+        }
+        break;
+      case 'new-market':
+        break;
+      default:
+        throw new Error(`Unknown rule condition type: ${(condition as any).type}`);
+    }
+  }
+
+  /**
+   * Evaluate all enabled rules against a batch of detected changes
+   */
+  public processChanges(changes: OddsChange[]): void {
+    this.pruneWindows(Date.now());
+
+    for (const change of changes) {
+      for (const rule of this.rules.values()) {
+        if (!rule.enabled || !this.matchesScope(rule, change)) {
+          continue;
+        }
+
+        const message = this.evaluate(rule, change);
+        if (message) {
+          this.fire(rule, change, message);
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop price samples older than their rule's window, and windows left empty or without a rule
+   */
+  private pruneWindows(now: number): void {
+    for (const [key, window] of this.priceWindows) {
+      const rule = this.rules.get(key.split(':')[0]);
+      if (!rule || rule.condition.type !== 'price-move') {
+        this.priceWindows.delete(key);
+        continue;
+      }
+
+      const windowMs = rule.condition.windowMs;
+      const recent = window.filter(point => now - point.at <= windowMs);
+      if (recent.length === 0) {
+        this.priceWindows.delete(key);
+      } else if (recent.length < window.length) {
+        this.priceWindows.set(key, recent);
+      }
+    }
+  }
+
+  private matchesScope(rule: AlertRule, change: OddsChange): boolean {
+    if (rule.eventId !== undefined && rule.eventId !== change.eventId) {
+      return false;
+    }
+    if (rule.gameTemplateId !== undefined && rule.gameTemplateId !== change.gameTemplateId) {
+      return false;
+    }
+    if (rule.selectionId !== undefined && (change.type !== 'selection-price' || change.selectionId !== rule.selectionId)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Returns the alert message if the rule fires for this change
+   */
+  private evaluate(rule: AlertRule, change: OddsChange): string | null {
+    const condition = rule.condition;
+
+    switch (condition.type) {
+      case 'price-move': {
+        if (change.type !== 'selection-price' || change.oldPrice === change.newPrice) {
+          return null;
+        }
+
+        const key = `${rule.id}:${change.eventId}:${change.selectionId}`;
+        const now = change.at.getTime();
+        const window = (this.priceWindows.get(key) || []).filter(point => now - point.at <= condition.windowMs);
+        if (window.length === 0) {
+          window.push({ price: change.oldPrice, at: now });
+        }
+
+        const baseline = window.reduce((furthest, point) =>
+          Math.abs(change.newPrice - point.price) > Math.abs(change.newPrice - furthest.price) ? point : furthest
+        );
+        const movePercent = baseline.price > 0 ? ((change.newPrice - baseline.price) / baseline.price) * 100 : 0;
+
+        if (Math.abs(movePercent) >= condition.thresholdPercent) {
+          // Restart the window so the same move does not fire repeatedly
+          this.priceWindows.set(key, [{ price: change.newPrice, at: now }]);
+          return `${change.selectionName} (${change.selectionId}) moved ${movePercent.toFixed(1)}% from ${baseline.price} to ${change.newPrice}`;
+        }
+
+        window.push({ price: change.newPrice, at: now });
+        this.priceWindows.set(key, window);
+        return null;
+      }
+
+      case 'market-state-change':
+        if (change.type !== 'market-state') {
+          return null;
+        }
+        if (condition.from && condition.from !== change.oldState) {
+          return null;
+        }
+        if (condition.to && condition.to !== change.newState) {
+          return null;
+        }
+        return `Market ${change.marketName} (${change.marketId}) changed from ${change.oldState} to ${change.newState}`;
+
+      case 'new-market':
+        if (change.type !== 'market-added') {
+          return null;
+        }
+        return `New market ${change.marketName} appeared for event ${change.eventId}`;
+    }
+  }
+
+  private fire(rule: AlertRule, change: OddsChange, message: string): void {
+    const alert: AlertRecord = {
+      id: randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      eventId: change.eventId,
+      message,
+      details: { ...change, at: change.at.toISOString() },
+      firedAt: new Date()
+    };
+
+    console.log(`Alert fired for rule ${rule.name}: ${message}`);
+    this.historyService.recordAlert(alert);
+
+    if (this.onAlertCallback) {
+      this.onAlertCallback(alert);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { UserRole } from './AuthService';
+
+export interface ApiKeyUsage {
+  totalRequests: number;
+  rejectedRequests: number;
+  requestsToday: number;
+  day: string;
+  lastUsedAt: string | null;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  role: UserRole;
+  requestsPerMinute: number;
+  dailyQuota: number | null;
+  createdAt: string;
+  createdBy: string;
+  revokedAt: string | null;
+  usage: ApiKeyUsage;
+}
+
+export type PublicApiKey = Omit<ApiKey, 'keyHash'>;
+
+export interface NewApiKeyInput {
+  name: string;
+  role?: UserRole;
+  requestsPerMinute?: number;
+  dailyQuota?: number | null;
+}
+
+export interface ApiKeyCheck {
+  key: PublicApiKey | null;
+  error: string | null;
+  status: number;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number | null;
+}
+
+export class ApiKeyService {
+  private keys: Map<string, ApiKey> = new Map();
+  private windows: Map<string, { startedAt: number; count: number }> = new Map();
+  private readonly KEYS_FILE_PATH = process.env.API_KEYS_PATH || path.join(process.cwd(), 'data', 'api-keys.json');
+  private readonly DEFAULT_REQUESTS_PER_MINUTE = parseInt(process.env.API_KEY_DEFAULT_RATE_LIMIT || '60');
+  private readonly KEY_PREFIX = 'mbk_';
+  private readonly WINDOW_MS = 60 * 1000;
+  private readonly SAVE_DELAY = 5000;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Load API keys from disk
+   */
+  public async load(): Promise<void> {
+    try {
+      if (!fs.existsSync(this.KEYS_FILE_PATH)) {
+        return;
+      }
+
+      const fileContent = await fs.promises.readFile(this.KEYS_FILE_PATH, 'utf8');
+      const keys: ApiKey[] = JSON.parse(fileContent);
+      this.keys = new Map(keys.map(key => [key.keyHash, key]));
+      console.log(`Loaded ${this.keys.size} API keys`);
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write keys and usage counters to disk now
+   */
+  public async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.KEYS_FILE_PATH), { recursive: true });
+      await fs.promises.writeFile(
+        this.KEYS_FILE_PATH,
+        JSON.stringify(Array.from(this.keys.values()), null, 2),
+        { encoding: 'utf8', mode: 0o600 }
+      );
+    } catch (error) {
+      console.error('Failed to save API keys:', error);
+    }
+  }
+
+  public getKeys(): PublicApiKey[] {
+    return Array.from(this.keys.values()).map(key => this.toPublicKey(key));
+  }
+
+  /**
+   * Create a key. The plain key is only returned here; only its hash is stored.
+   */
+  public async createKey(input: NewApiKeyInput, createdBy: string): Promise<{ key: PublicApiKey; apiKey: string }> {
+    const { name, role = 'viewer', requestsPerMinute = this.DEFAULT_REQUESTS_PER_MINUTE, dailyQuota = null } = input;
+
+    if (!name || typeof name !== 'string') {
+      throw new Error('Key name is required');
+    }
+    if (role !== 'admin' && role !== 'viewer') {
+      throw new Error(`Unknown role: ${role}`);
+    }
+    if (!Number.isInteger(requestsPerMinute) || requestsPerMinute <= 0) {
+      throw new Error('requestsPerMinute must be a positive integer');
+    }
+    if (dailyQuota !== null && (!Number.isInteger(dailyQuota) || dailyQuota <= 0)) {
+      throw new Error('dailyQuota must be a positive integer or null');
+    }
+
+    const apiKey = `${this.KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const key: ApiKey = {
+      id: randomUUID(),
+      name,
+      prefix: apiKey.substring(0, this.KEY_PREFIX.length + 6),
+      keyHash: this.hashKey(apiKey),
+      role,
+      requestsPerMinute,
+      dailyQuota,
+      createdAt: new Date().toISOString(),
+      createdBy,
+      revokedAt: null,
+      usage: {
+        totalRequests: 0,
+        rejectedRequests: 0,
+        requestsToday: 0,
+        day: this.today(),
+        lastUsedAt: null
+      }
+    };
+
+    this.keys.set(key.keyHash, key);
+    await this.save();
+    console.log(`Created API key ${key.prefix}... (${name}) for ${createdBy}`);
+
+    return { key: this.toPublicKey(key), apiKey };
+  }
+
+  /**
+   * Revoke a key; it stays listed with its usage but no longer authenticates
+   */
+  public async revokeKey(keyId: string): Promise<PublicApiKey | null> {
+    const key = Array.from(this.keys.values()).find(candidate => candidate.id === keyId);
+    if (!key) {
+      return null;
+    }
+
+    if (!key.revokedAt) {
+      key.revokedAt = new Date().toISOString();
+      this.windows.delete(key.id);
+      await this.save();
+      console.log(`Revoked API key ${key.prefix}... (${key.name})`);
+    }
+
+    return this.toPublicKey(key);
+  }
+
+  /**
+   * Authenticate a presented key and count the request against its rate limit and daily quota
+   */
+  public check(apiKey: string): ApiKeyCheck {
+    const key = this.keys.get(this.hashKey(apiKey));
+    if (!key || key.revokedAt) {
+      return { key: null, error: 'Invalid or revoked API key', status: 401, limit: 0, remaining: 0, retryAfterSeconds: null };
+    }
+
+    const now = Date.now();
+    const usage = key.usage;
+    if (usage.day !== this.today()) {
+      usage.day = this.today();
+      usage.requestsToday = 0;
+    }
+
+    let window = this.windows.get(key.id);
+    if (!window || now - window.startedAt >= this.WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(key.id, window);
+    }
+
+    usage.lastUsedAt = new Date(now).toISOString();
+    this.scheduleSave();
+
+    if (window.count >= key.requestsPerMinute) {
+      usage.rejectedRequests++;
+      return {
+        key: this.toPublicKey(key),
+        error: `Rate limit of ${key.requestsPerMinute} requests per minute exceeded`,
+        status: 429,
+        limit: key.requestsPerMinute,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((window.startedAt + this.WINDOW_MS - now) / 1000)
+      };
+    }
+
+    if (key.dailyQuota !== null && usage.requestsToday >= key.dailyQuota) {
+      usage.rejectedRequests++;
+      const midnight = new Date(now);
+      midnight.setUTCHours(24, 0, 0, 0);
+      return {
+        key: this.toPublicKey(key),
+        error: `Daily quota of ${key.dailyQuota} requests exceeded`,
+        status: 429,
+        limit: key.requestsPerMinute,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((midnight.getTime() - now) / 1000)
+      };
+    }
+
+    window.count++;
+    usage.totalRequests++;
+    usage.requestsToday++;
+
+    return {
+      key: this.toPublicKey(key),
+      error: null,
+      status: 200,
+      limit: key.requestsPerMinute,
+      remaining: key.requestsPerMinute - window.count,
+      retryAfterSeconds: null
+    };
+  }
+
+  private hashKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  private today(): string {
+    return new Date().toISOString().substring(0, 10);
+  }
+
+  private toPublicKey(key: ApiKey): PublicApiKey {
+    const { keyHash, ...publicKey } = key;
+    return { ...publicKey, usage: { ...key.usage } };
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, this.SAVE_DELAY);
+  }
+}
@@ -0,0 +1,264 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import jwt from 'jsonwebtoken';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiKeyService } from './ApiKeyService';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export type UserRole = 'admin' | 'viewer';
+
+export interface StoredUser {
+  id: string;
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  apiKeyId?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+    }
+  }
+}
+
+export class AuthService {
+  private users: Map<string, StoredUser> = new Map();
+  private readonly USERS_FILE_PATH = process.env.AUTH_USERS_PATH || path.join(process.cwd(), 'data', 'users.json');
+  private readonly SESSION_COOKIE = 'session';
+  private readonly SESSION_TTL_SECONDS = parseInt(process.env.AUTH_SESSION_TTL || '43200'); // 12 hours default
+  private readonly JWT_SECRET: string;
+
+  constructor(private apiKeyService: ApiKeyService) {
+    if (process.env.AUTH_JWT_SECRET) {
+      this.JWT_SECRET = process.env.AUTH_JWT_SECRET;
+    } else {
+      this.JWT_SECRET = randomBytes(32).toString('hex');
+      console.warn('AUTH_JWT_SECRET is not set, using a random secret (sessions end on restart)');
+    }
+  }
+
+  /**
+   * Load users from disk, creating the initial admin account when the store is empty
+   */
+  public async initialize(): Promise<void> {
+    try {
+      if (fs.existsSync(this.USERS_FILE_PATH)) {
+        const fileContent = await fs.promises.readFile(this.USERS_FILE_PATH, 'utf8');
+        const users: StoredUser[] = JSON.parse(fileContent);
+        this.users = new Map(users.map(user => [user.username, user]));
+        console.log(`Loaded ${this.users.size} users`);
+      }
+    } catch (error) {
+      console.error('Failed to load users:', error);
+      throw error;
+    }
+
+    if (this.users.size === 0) {
+      const username = process.env.ADMIN_USERNAME || 'admin';
+      let password = process.env.ADMIN_PASSWORD;
+
+      if (!password) {
+        password = randomBytes(12).toString('base64url');
+        console.warn(`ADMIN_PASSWORD is not set, generated initial password for '${username}': ${password}`);
+      }
+
+      await this.createUser(username, password, 'admin');
+      console.log(`Created initial admin user '${username}'`);
+    }
+  }
+
+  private async saveUsers(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.USERS_FILE_PATH), { recursive: true });
+    await fs.promises.writeFile(
+      this.USERS_FILE_PATH,
+      JSON.stringify(Array.from(this.users.values()), null, 2),
+      { encoding: 'utf8', mode: 0o600 }
+    );
+  }
+
+  public getUsers(): SessionUser[] {
+    return Array.from(this.users.values()).map(user => this.toSessionUser(user));
+  }
+
+  public async createUser(username: string, password: string, role: UserRole): Promise<SessionUser> {
+    if (!username || !/^[a-zA-Z0-9_.-]{3,32}$/.test(username)) {
+      throw new Error('Username must be 3-32 characters of letters, digits, ".", "_" or "-"');
+    }
+    if (!password || password.length < 8) {
+      throw new Error('Password must be at least 8 characters');
+    }
+    if (role !== 'admin' && role !== 'viewer') {
+      throw new Error(`Unknown role: ${role}`);
+    }
+    if (this.users.has(username)) {
+      throw new Error(`User ${username} already exists`);
+    }
+
+    const user: StoredUser = {
+      id: randomUUID(),
+      username,
+      passwordHash: await this.hashPassword(password),
+      role,
+      createdAt: new Date().toISOString()
+    };
+
+    this.users.set(username, user);
+    await this.saveUsers();
+    return this.toSessionUser(user);
+  }
+
+  public async deleteUser(username: string): Promise<boolean> {
+    const user = this.users.get(username);
+    if (!user) {
+      return false;
+    }
+
+    const remainingAdmins = Array.from(this.users.values()).filter(other => other.role === 'admin' && other.username !== username);
+    if (user.role === 'admin' && remainingAdmins.length === 0) {
+      throw new Error('Cannot delete the last admin user');
+    }
+
+    this.users.delete(username);
+    await this.saveUsers();
+    return true;
+  }
+
+  /**
+   * Verify credentials and return the signed session token
+   */
+  public async login(username: string, password: string): Promise<{ user: SessionUser; token: string } | null> {
+    const user = this.users.get(username);
+
+    // Hash anyway for unknown users so response time does not reveal which usernames exist
+    const valid = await this.verifyPassword(password, user?.passwordHash ?? 'scrypt$00$00');
+    if (!user || !valid) {
+      return null;
+    }
+
+    const sessionUser = this.toSessionUser(user);
+    const token = jwt.sign(sessionUser, this.JWT_SECRET, { expiresIn: this.SESSION_TTL_SECONDS });
+    return { user: sessionUser, token };
+  }
+
+  /**
+   * Set the session cookie on a response
+   */
+  public setSessionCookie(res: Response, token: string): void {
+    res.cookie(this.SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.AUTH_COOKIE_SECURE === 'true',
+      maxAge: this.SESSION_TTL_SECONDS * 1000
+    });
+  }
+
+  public clearSessionCookie(res: Response): void {
+    res.clearCookie(this.SESSION_COOKIE);
+  }
+
+  /**
+   * Middleware that requires a valid API key, session cookie or bearer session token
+   */
+  public authenticate: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    // EventSource cannot send headers, so the stream also accepts the key as a query parameter
+    const apiKey = req.get('X-API-Key') || (typeof req.query.api_key === 'string' ? req.query.api_key : null);
+    if (apiKey) {
+      return this.authenticateApiKey(apiKey, req, res, next);
+    }
+
+    const header = req.headers.authorization;
+    const token = req.cookies?.[this.SESSION_COOKIE] || (header?.startsWith('Bearer ') ? header.substring(7) : null);
+
+    if (!token) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    try {
+      const payload = jwt.verify(token, this.JWT_SECRET) as SessionUser;
+      const user = this.users.get(payload.username);
+
+      // Deleted users lose access even while their token has not expired
+      if (!user || user.id !== payload.id) {
+        return res.status(401).json({ success: false, error: 'Session is no longer valid' });
+      }
+
+      req.user = this.toSessionUser(user);
+      next();
+    } catch (error) {
+      return res.status(401).json({ success: false, error: 'Invalid or expired session' });
+    }
+  };
+
+  private authenticateApiKey(apiKey: string, req: Request, res: Response, next: NextFunction) {
+    const result = this.apiKeyService.check(apiKey);
+
+    if (result.key) {
+      res.setHeader('X-RateLimit-Limit', result.limit);
+      res.setHeader('X-RateLimit-Remaining', result.remaining);
+    }
+    if (result.retryAfterSeconds !== null) {
+      res.setHeader('Retry-After', result.retryAfterSeconds);
+    }
+
+    if (!result.key || result.error) {
+      return res.status(result.status).json({ success: false, error: result.error });
+    }
+
+    req.user = {
+      id: result.key.id,
+      username: `apikey:${result.key.name}`,
+      role: result.key.role,
+      apiKeyId: result.key.id
+    };
+    next();
+  }
+
+  /**
+   * Middleware that requires the authenticated user to have the given role
+   */
+  public requireRole(role: UserRole): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!req.user || req.user.role !== role) {
+        return res.status(403).json({ success: false, error: `This action requires the ${role} role` });
+      }
+      next();
+    };
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, 64);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  private async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [scheme, saltHex, hashHex] = passwordHash.split('$');
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+      return false;
+    }
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(password || '', Buffer.from(saltHex, 'hex'), 64);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private toSessionUser(user: StoredUser): SessionUser {
+    return {
+      id: user.id,
+      username: user.username,
+      role: user.role
+    };
+  }
+}
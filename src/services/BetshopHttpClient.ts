@@ -0,0 +1,255 @@
+import { MeridianbetTokenService } from './MeridianbetTokenService';
+import { UpstreamValidator, UpstreamPayloadType } from './UpstreamValidator';
+import { AdaptiveRateLimiter, RateLimiterStats } from './AdaptiveRateLimiter';
+
+/**
+ * Base class for every failure of a betshop API request
+ */
+export class UpstreamError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * The request never got a response: DNS, connection reset, or the request timed out
+ */
+export class UpstreamNetworkError extends UpstreamError {
+  constructor(message: string, url: string, public readonly timedOut: boolean) {
+    super(message, url);
+    this.name = 'UpstreamNetworkError';
+  }
+}
+
+/**
+ * The upstream answered with a non-2xx status
+ */
+export class UpstreamHttpError extends UpstreamError {
+  constructor(message: string, url: string, public readonly status: number, public readonly retryAfterMs: number | null) {
+    super(message, url);
+    this.name = 'UpstreamHttpError';
+  }
+}
+
+/**
+ * The access token was rejected even after refreshing it
+ */
+export class UpstreamAuthError extends UpstreamHttpError {
+  constructor(message: string, url: string, status: number) {
+    super(message, url, status, null);
+    this.name = 'UpstreamAuthError';
+  }
+}
+
+/**
+ * The upstream answered 2xx with a body that is not valid JSON
+ */
+export class UpstreamParseError extends UpstreamError {
+  constructor(message: string, url: string, public readonly status: number) {
+    super(message, url);
+    this.name = 'UpstreamParseError';
+  }
+}
+
+/**
+ * The request succeeded but the response envelope carries an errorCode
+ */
+export class UpstreamApiError extends UpstreamError {
+  constructor(message: string, url: string, public readonly errorCode: string, public readonly errorMessages: string[]) {
+    super(message, url);
+    this.name = 'UpstreamApiError';
+  }
+}
+
+interface UpstreamResponse {
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: Headers;
+  body: string;
+}
+
+export interface BetshopRequestOptions {
+  payloadType?: UpstreamPayloadType;  // Validate the response against this schema
+  timeoutMs?: number;
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Shared client for the betshop REST API. Adds auth and default headers, refreshes the token once
+ * on 401, retries network errors, timeouts, 429 and 5xx with exponential backoff and jitter
+ * (honouring Retry-After), and turns envelope errorCodes into UpstreamApiError. Every attempt
+ * goes through the shared AdaptiveRateLimiter.
+ */
+export class BetshopHttpClient {
+  public readonly BASE_URL = process.env.BETSHOP_API_URL || 'https://online.meridianbet.com/betshop/api';
+  private readonly REQUEST_TIMEOUT = parseInt(process.env.API_REQUEST_TIMEOUT || '15000');
+  private readonly MAX_RETRIES = parseInt(process.env.API_MAX_RETRIES || '3');
+  private readonly RETRY_BASE_DELAY = parseInt(process.env.API_RETRY_BASE_DELAY || '500');
+  private readonly RETRY_MAX_DELAY = parseInt(process.env.API_RETRY_MAX_DELAY || '30000');
+  private readonly DEFAULT_HEADERS: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept-Language': process.env.API_ACCEPT_LANGUAGE || 'en',
+    'User-Agent': process.env.API_USER_AGENT || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+  };
+
+  constructor(
+    private tokenService: MeridianbetTokenService,
+    private validator: UpstreamValidator,
+    private rateLimiter: AdaptiveRateLimiter
+  ) { }
+
+  public getRateLimiterStats(): RateLimiterStats {
+    return this.rateLimiter.getStats();
+  }
+
+  /**
+   * GET a JSON document. Paths are relative to BASE_URL unless they are absolute URLs.
+   */
+  public async getJson<T>(pathOrUrl: string, options: BetshopRequestOptions = {}): Promise<T> {
+    const url = /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${this.BASE_URL}${pathOrUrl}`;
+    const maxRetries = options.maxRetries ?? this.MAX_RETRIES;
+    let tokenRefreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const tokenData = await this.tokenService.refreshTokenIfNeeded();
+
+      try {
+        const response = await this.send(url, tokenData.accessToken, options);
+
+        if (response.status === 401 && !tokenRefreshed) {
+          console.log(`Token rejected for ${url}, refreshing...`);
+          await this.tokenService.forceTokenRefresh(tokenData.accessToken);
+          tokenRefreshed = true;
+          attempt--; // A token refresh does not count as a retry
+          continue;
+        }
+
+        if (response.status === 401 || response.status === 403) {
+          throw new UpstreamAuthError(`Upstream rejected the access token: ${response.status}`, url, response.status);
+        }
+
+        if (!response.ok) {
+          throw new UpstreamHttpError(
+            `HTTP error! status: ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`,
+            url,
+            response.status,
+            this.parseRetryAfter(response.headers.get('Retry-After'))
+          );
+        }
+
+        let data: any;
+        try {
+          data = JSON.parse(response.body);
+        } catch (error) {
+          throw new UpstreamParseError(
+            `Invalid JSON response: ${error instanceof Error ? error.message : String(error)}`,
+            url,
+            response.status
+          );
+        }
+
+        if (options.payloadType) {
+          this.validator.validate(options.payloadType, data);
+        }
+
+        if (data && typeof data === 'object' && data.errorCode) {
+          const errorMessages: string[] = data.errorMessages || [];
+          throw new UpstreamApiError(`API error: ${data.errorCode} - ${errorMessages.join(', ')}`, url, data.errorCode, errorMessages);
+        }
+
+        return data as T;
+
+      } catch (error) {
+        if (!this.isRetryable(error) || attempt >= maxRetries || options.signal?.aborted) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(error, attempt);
+        console.warn(`Request to ${url} failed (${(error as Error).message}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * One request attempt. The body is read before the timeout is cleared and the rate limiter slot is
+   * released, so a stalled body counts against API_REQUEST_TIMEOUT like a stalled connection.
+   */
+  private async send(url: string, accessToken: string, options: BetshopRequestOptions): Promise<UpstreamResponse> {
+    const release = await this.rateLimiter.acquire();
+    const startedAt = Date.now();
+    let status: number | null = null;
+
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? this.REQUEST_TIMEOUT;
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    try {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          ...this.DEFAULT_HEADERS,
+          'Authorization': `Bearer ${accessToken}`
+        },
+        signal: controller.signal
+      });
+      status = response.status;
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        ok: response.ok,
+        headers: response.headers,
+        body: await response.text()
+      };
+    } catch (error) {
+      const timedOut = controller.signal.aborted && !options.signal?.aborted;
+      const message = timedOut
+        ? `Request timed out after ${timeoutMs}ms`
+        : `Network error: ${error instanceof Error ? error.message : String(error)}`;
+      throw new UpstreamNetworkError(message, url, timedOut);
+    } finally {
+      clearTimeout(timeout);
+      options.signal?.removeEventListener('abort', onAbort);
+      release({ latencyMs: Date.now() - startedAt, status });
+    }
+  }
+
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof UpstreamNetworkError) {
+      return true;
+    }
+    if (error instanceof UpstreamHttpError && !(error instanceof UpstreamAuthError)) {
+      return error.status === 429 || error.status >= 500;
+    }
+    return false;
+  }
+
+  /**
+   * Full-jitter exponential backoff, or the server's Retry-After when it asks for longer
+   */
+  private getRetryDelay(error: unknown, attempt: number): number {
+    const backoff = Math.random() * Math.min(this.RETRY_MAX_DELAY, this.RETRY_BASE_DELAY * 2 ** attempt);
+    const retryAfter = error instanceof UpstreamHttpError ? error.retryAfterMs : null;
+    return Math.round(retryAfter !== null ? Math.min(Math.max(retryAfter, backoff), this.RETRY_MAX_DELAY) : backoff);
+  }
+
+  /**
+   * Retry-After is either delay-seconds or an HTTP date
+   */
+  private parseRetryAfter(value: string | null): number | null {
+    if (!value) {
+      return null;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value) * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+}
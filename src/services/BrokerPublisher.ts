@@ -0,0 +1,51 @@
+import { InMemoryBrokerPublisher } from './InMemoryBrokerPublisher';
+import { RedisStreamsPublisher } from './RedisStreamsPublisher';
+
+/**
+ * One message for a broker topic. Topics are per mode and sport, keys per event, so consumers can
+ * partition by event and read one sport at a time.
+ */
+export interface BrokerMessage {
+  topic: string;
+  key: string;
+  type: string;
+  payload: unknown;
+  publishedAt: string;
+}
+
+/**
+ * A message broker the live and pre-game data is published to
+ */
+export interface BrokerPublisher {
+  readonly name: string;
+
+  /**
+   * Publish messages in order; rejects when the broker did not accept them
+   */
+  publish(messages: BrokerMessage[]): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+export type BrokerType = 'none' | 'memory' | 'redis';
+
+/**
+ * Create the publisher selected by BROKER_TYPE, or null when publishing is disabled
+ */
+export function createBrokerPublisher(): BrokerPublisher | null {
+  const type = (process.env.BROKER_TYPE || 'none') as BrokerType;
+
+  switch (type) {
+    case 'none':
+      return null;
+    case 'memory':
+      return new InMemoryBrokerPublisher();
+    case 'redis':
+      return new RedisStreamsPublisher(
+        process.env.BROKER_REDIS_URL || 'redis://localhost:6379',
+        parseInt(process.env.BROKER_STREAM_MAXLEN || '100000')
+      );
+    default:
+      throw new Error(`Unknown BROKER_TYPE: ${type}`);
+  }
+}
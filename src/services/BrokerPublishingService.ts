@@ -0,0 +1,152 @@
+import type { BrokerMessage, BrokerPublisher } from './BrokerPublisher';
+import type { LiveDataUpdate } from './MeridianbetLiveService';
+import type { EventData, MarketData, PreGameResult, PreGameDelta } from './MeridianbetDataService';
+import { SportCatalogService } from './SportCatalogService';
+
+export interface BrokerStats {
+  publisher: string | null;
+  published: number;
+  failed: number;
+  lastError: string | null;
+}
+
+/**
+ * Turns live updates and pre-game results into per-event broker messages. Topics are
+ * "<prefix>.<live|pregame>.<sport slug>" and every message is keyed by event ID. Publishing is
+ * fire-and-forget: broker failures are counted and logged but never reach the extraction.
+ */
+export class BrokerPublishingService {
+  private readonly TOPIC_PREFIX = process.env.BROKER_TOPIC_PREFIX || 'meridianbet';
+
+  // Topic each live event was last published to, so removals go to the same topic
+  private liveTopics: Map<number, string> = new Map();
+  private published = 0;
+  private failed = 0;
+  private lastError: string | null = null;
+
+  constructor(
+    private publisher: BrokerPublisher | null,
+    private sportCatalog: SportCatalogService
+  ) {
+    if (publisher) {
+      console.log(`Publishing odds to ${publisher.name} broker with topic prefix ${this.TOPIC_PREFIX}`);
+    }
+  }
+
+  /**
+   * Publish the full state of every changed live event and a removal for every event that left the live offer
+   */
+  public publishLiveUpdate(update: LiveDataUpdate): void {
+    if (!this.publisher) {
+      return;
+    }
+
+    const messages: BrokerMessage[] = [];
+
+    for (const eventId of update.removedEventIds) {
+      const topic = this.liveTopics.get(eventId);
+      if (topic) {
+        messages.push(this.createMessage(topic, eventId, 'live.event-removed', { eventId }));
+        this.liveTopics.delete(eventId);
+      }
+    }
+
+    for (const event of update.events) {
+      const eventId = event.header.eventId;
+      const topic = this.getTopic('live', event.header);
+      this.liveTopics.set(eventId, topic);
+      messages.push(this.createMessage(topic, eventId, 'live.event', {
+        header: event.header,
+        markets: update.markets[eventId] || [],
+        lastUpdate: update.lastUpdate
+      }));
+    }
+
+    this.send(messages);
+  }
+
+  /**
+   * Publish every event of a full pre-game extraction
+   */
+  public publishPreGameResult(sport: string, result: PreGameResult): void {
+    if (!this.publisher) {
+      return;
+    }
+
+    this.send(this.createPreGameEventMessages(sport, result.events, result.markets));
+  }
+
+  /**
+   * Publish the changed events of an incremental pre-game refresh and a removal for events that started or were withdrawn
+   */
+  public publishPreGameDelta(sport: string, delta: PreGameDelta): void {
+    if (!this.publisher) {
+      return;
+    }
+
+    const topic = this.getTopic('pregame', undefined, sport);
+    const removals = [
+      ...delta.removed.map(eventId => this.createMessage(topic, eventId, 'pregame.event-removed', { eventId, reason: 'removed' })),
+      ...delta.started.map(eventId => this.createMessage(topic, eventId, 'pregame.event-removed', { eventId, reason: 'started' }))
+    ];
+
+    this.send([...removals, ...this.createPreGameEventMessages(sport, delta.events, delta.markets)]);
+  }
+
+  public getStats(): BrokerStats {
+    return {
+      publisher: this.publisher?.name ?? null,
+      published: this.published,
+      failed: this.failed,
+      lastError: this.lastError
+    };
+  }
+
+  public async close(): Promise<void> {
+    if (this.publisher) {
+      await this.publisher.close();
+    }
+  }
+
+  private createPreGameEventMessages(sport: string, events: EventData[], markets: Map<number, MarketData[]>): BrokerMessage[] {
+    return events.map(event => this.createMessage(
+      this.getTopic('pregame', event.header, sport),
+      event.header.eventId,
+      'pregame.event',
+      { header: event.header, markets: markets.get(event.header.eventId) || [] }
+    ));
+  }
+
+  private createMessage(topic: string, eventId: number, type: string, payload: unknown): BrokerMessage {
+    return { topic, key: String(eventId), type, payload, publishedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Topic for an event, by the sport slug of its header, or of the job's sport when the header has none
+   */
+  private getTopic(mode: 'live' | 'pregame', header?: EventData['header'], sport?: string): string {
+    const slug = header?.sport?.slug
+      || (header?.sport?.sportId ? this.sportCatalog.getSport(header.sport.sportId)?.slug : undefined)
+      || (sport ? this.sportCatalog.getSport(sport)?.slug : undefined)
+      || sport
+      || 'unknown';
+
+    return `${this.TOPIC_PREFIX}.${mode}.${slug}`;
+  }
+
+  private send(messages: BrokerMessage[]): void {
+    if (!this.publisher || messages.length === 0) {
+      return;
+    }
+
+    this.publisher.publish(messages)
+      .then(() => {
+        this.published += messages.length;
+      })
+      .catch(error => {
+        this.failed += messages.length;
+        this.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to publish ${messages.length} messages to ${this.publisher!.name}:`, this.lastError);
+      });
+  }
+}
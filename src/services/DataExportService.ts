@@ -0,0 +1,179 @@
+import ExcelJS from 'exceljs';
+import { EventData, MarketData } from './MeridianbetDataService';
+import { computeMarketAnalytics } from './MarketAnalytics';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+export interface SelectionRow {
+  eventId: number;
+  sport: string;
+  region: string;
+  league: string;
+  rivals: string;
+  home: string;
+  away: string;
+  startTime: string;
+  gameTemplateId: number;
+  marketGroup: string;
+  marketId: number;
+  marketName: string;
+  marketState: string;
+  handicap: number | null;
+  overUnder: number | null;
+  selectionId: string;
+  selectionName: string;
+  price: number;
+  selectionState: string;
+  margin: number | null;
+  impliedProbability: number | null;
+  fairPriceProportional: number | null;
+  fairPriceShin: number | null;
+  fairPricePower: number | null;
+}
+
+const COLUMNS: Array<{ key: keyof SelectionRow; header: string; width: number }> = [
+  { key: 'eventId', header: 'Event ID', width: 12 },
+  { key: 'sport', header: 'Sport', width: 12 },
+  { key: 'region', header: 'Region', width: 18 },
+  { key: 'league', header: 'League', width: 28 },
+  { key: 'rivals', header: 'Rivals', width: 40 },
+  { key: 'home', header: 'Home', width: 20 },
+  { key: 'away', header: 'Away', width: 20 },
+  { key: 'startTime', header: 'Start Time', width: 22 },
+  { key: 'gameTemplateId', header: 'Game Template ID', width: 16 },
+  { key: 'marketGroup', header: 'Market Group', width: 24 },
+  { key: 'marketId', header: 'Market ID', width: 12 },
+  { key: 'marketName', header: 'Market', width: 24 },
+  { key: 'marketState', header: 'Market State', width: 14 },
+  { key: 'handicap', header: 'Handicap', width: 10 },
+  { key: 'overUnder', header: 'Over/Under', width: 10 },
+  { key: 'selectionId', header: 'Selection ID', width: 20 },
+  { key: 'selectionName', header: 'Selection', width: 16 },
+  { key: 'price', header: 'Price', width: 8 },
+  { key: 'selectionState', header: 'Selection State', width: 14 },
+  { key: 'margin', header: 'Margin', width: 10 },
+  { key: 'impliedProbability', header: 'Implied Probability', width: 18 },
+  { key: 'fairPriceProportional', header: 'Fair Price (Proportional)', width: 22 },
+  { key: 'fairPriceShin', header: 'Fair Price (Shin)', width: 16 },
+  { key: 'fairPricePower', header: 'Fair Price (Power)', width: 16 }
+];
+
+export class DataExportService {
+  public static readonly CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  };
+
+  /**
+   * Flatten events and their market groups into one row per selection
+   */
+  public flatten(events: Array<{ header: EventData['header'] }>, markets: Map<number, MarketData[]>, sport: string): SelectionRow[] {
+    const rows: SelectionRow[] = [];
+
+    for (const event of events) {
+      const header = event.header;
+      const rivals: string[] = Array.isArray(header.rivals) ? header.rivals : [];
+      const startTime = header.startTime ? new Date(header.startTime).toISOString() : '';
+
+      for (const group of markets.get(header.eventId) || []) {
+        for (const market of group.markets) {
+          const analytics = computeMarketAnalytics(market.selections.map(selection => ({ id: selection.selectionId, price: selection.price, state: selection.state })));
+
+          for (const selection of market.selections) {
+            const outcome = analytics?.outcomes.find(candidate => candidate.outcomeId === selection.selectionId);
+            rows.push({
+              eventId: header.eventId,
+              sport: header.sport?.name ?? sport,
+              region: header.region?.name ?? '',
+              league: header.league?.name ?? '',
+              rivals: rivals.join(' vs '),
+              home: rivals[0] ?? '',
+              away: rivals[1] ?? '',
+              startTime,
+              gameTemplateId: group.gameTemplateId,
+              marketGroup: group.marketName,
+              marketId: market.marketId,
+              marketName: market.name,
+              marketState: market.state,
+              handicap: market.handicap ?? null,
+              overUnder: market.overUnder ?? null,
+              selectionId: selection.selectionId,
+              selectionName: selection.name,
+              price: selection.price,
+              selectionState: selection.state,
+              margin: analytics?.margin ?? null,
+              impliedProbability: outcome?.impliedProbability ?? null,
+              fairPriceProportional: outcome?.fairPrice.proportional ?? null,
+              fairPriceShin: outcome?.fairPrice.shin ?? null,
+              fairPricePower: outcome?.fairPrice.power ?? null
+            });
+          }
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Serialize rows in the requested format
+   */
+  public async serialize(rows: SelectionRow[], format: ExportFormat): Promise<Buffer> {
+    switch (format) {
+      case 'csv':
+        return Buffer.from(this.toCsv(rows), 'utf8');
+      case 'ndjson':
+        return Buffer.from(this.toNdjson(rows), 'utf8');
+      case 'xlsx':
+        return this.toXlsx(rows);
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  /**
+   * CSV with a UTF-8 BOM so Excel detects the encoding
+   */
+  public toCsv(rows: SelectionRow[]): string {
+    const lines = [COLUMNS.map(column => this.escapeCsv(column.header)).join(',')];
+
+    for (const row of rows) {
+      lines.push(COLUMNS.map(column => this.escapeCsv(row[column.key])).join(','));
+    }
+
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+  }
+
+  public toNdjson(rows: SelectionRow[]): string {
+    return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+  }
+
+  public async toXlsx(rows: SelectionRow[]): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet('Selections', {
+      views: [{ state: 'frozen', ySplit: 1 }]
+    });
+    sheet.columns = COLUMNS.map(column => ({ header: column.header, key: column.key, width: column.width }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: COLUMNS.length } };
+    sheet.addRows(rows);
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer as ArrayBuffer);
+  }
+
+  private escapeCsv(value: string | number | null): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    const text = String(value);
+    if (/[",\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+}
@@ -0,0 +1,293 @@
+import type { EventData, MarketData, Selection } from './MeridianbetDataService';
+import { MeridianbetLiveService, LiveDataUpdate } from './MeridianbetLiveService';
+import { LineCaptureService, LineObservation } from './LineCaptureService';
+
+export type TrackedEventStatus = 'pregame' | 'live' | 'ended';
+
+export interface PriceObservation {
+  price: number;
+  state: string;
+  at: string;
+}
+
+export interface TrackedSelection {
+  selectionId: string;
+  selectionName: string;
+  gameTemplateId: number;
+  marketGroupName: string;
+  marketId: number;
+  marketName: string;
+  opening: PriceObservation | null;   // Opening line from LineCaptureService
+  closing: PriceObservation | null;   // Closing line from LineCaptureService
+  live: PriceObservation[];           // Live price and state changes since the handover
+}
+
+export interface TrackedEvent {
+  eventId: number;
+  sportId: number | null;
+  header: EventData['header'];
+  status: TrackedEventStatus;
+  startTime: string | null;
+  firstSeenAt: string;
+  handedOverAt: string | null;
+  endedAt: string | null;
+  selections: TrackedSelection[];
+}
+
+export type TrackedEventSummary = Omit<TrackedEvent, 'selections'> & { selectionCount: number };
+
+interface TrackerEntry {
+  event: Omit<TrackedEvent, 'selections'>;
+  selections: Map<string, TrackedSelection>;
+}
+
+/**
+ * Follows events from the pre-game offer into live play under one record. Pre-game results register
+ * the selections of an event; their opening and closing prices are the lines kept by LineCaptureService.
+ * Once an event's start time passes it is handed over to MeridianbetLiveService and its live price
+ * changes are appended.
+ */
+export class EventTrackerService {
+  private entries: Map<number, TrackerEntry> = new Map();
+  private handoverTimer: NodeJS.Timeout | null = null;
+  private handoverInProgress = false;
+  private readonly CHECK_INTERVAL = parseInt(process.env.EVENT_HANDOVER_CHECK_INTERVAL || '30000');
+  private readonly TRAJECTORY_LIMIT = parseInt(process.env.EVENT_TRACKER_TRAJECTORY_LIMIT || '500');
+  private readonly RETENTION = parseInt(process.env.EVENT_TRACKER_RETENTION || '86400000'); // 24 hours default
+
+  constructor(
+    private liveService: MeridianbetLiveService,
+    private lineCapture: LineCaptureService
+  ) { }
+
+  /**
+   * Start checking for pre-game events that reached their start time
+   */
+  public start(): void {
+    if (this.handoverTimer) {
+      return;
+    }
+
+    this.handoverTimer = setInterval(() => {
+      this.handOverStartedEvents().catch(error => console.error('Event handover check failed:', error));
+    }, this.CHECK_INTERVAL);
+  }
+
+  /**
+   * Record a pre-game result: register new events and their selections, and refresh their headers
+   */
+  public recordPreGame(events: EventData[], markets: Map<number, MarketData[]>): void {
+    const now = new Date().toISOString();
+
+    for (const event of events) {
+      const eventId = event.header.eventId;
+      let entry = this.entries.get(eventId);
+
+      // Headers are frozen once the event was handed over
+      if (entry && entry.event.status !== 'pregame') {
+        continue;
+      }
+
+      if (!entry) {
+        entry = {
+          event: {
+            eventId,
+            sportId: null,
+            header: event.header,
+            status: 'pregame',
+            startTime: null,
+            firstSeenAt: now,
+            handedOverAt: null,
+            endedAt: null
+          },
+          selections: new Map()
+        };
+        this.entries.set(eventId, entry);
+      }
+
+      entry.event.header = event.header;
+      entry.event.sportId = event.header.sport?.sportId ?? entry.event.sportId;
+      entry.event.startTime = event.header.startTime ? new Date(event.header.startTime).toISOString() : null;
+
+      this.forEachSelection(entry, markets.get(eventId) || []);
+    }
+  }
+
+  /**
+   * Forget pre-game events that were withdrawn from the offer before they started
+   */
+  public removePreGame(eventIds: number[]): void {
+    for (const eventId of eventIds) {
+      if (this.entries.get(eventId)?.event.status === 'pregame') {
+        this.entries.delete(eventId);
+      }
+    }
+  }
+
+  /**
+   * Append the live price changes of tracked events and end the events that left the live offer
+   */
+  public recordLive(update: LiveDataUpdate): void {
+    for (const event of update.events) {
+      const entry = this.entries.get(event.header.eventId);
+      if (!entry || entry.event.status === 'ended') {
+        continue;
+      }
+
+      // Live data can arrive before the handover check, e.g. when the event's sport is extracted live
+      if (entry.event.status === 'pregame') {
+        this.markHandedOver(entry);
+      }
+
+      entry.event.header = event.header;
+
+      this.forEachSelection(entry, update.markets[event.header.eventId] || [], (selection, raw) => {
+        const observation = { price: raw.price, state: raw.state, at: update.lastUpdate };
+        const last = selection.live[selection.live.length - 1];
+        if (last && last.price === observation.price && last.state === observation.state) {
+          return;
+        }
+
+        selection.live.push(observation);
+        if (selection.live.length > this.TRAJECTORY_LIMIT) {
+          selection.live.shift();
+        }
+      });
+    }
+
+    for (const eventId of update.removedEventIds) {
+      const entry = this.entries.get(eventId);
+      if (entry && entry.event.status === 'live') {
+        entry.event.status = 'ended';
+        entry.event.endedAt = new Date().toISOString();
+      }
+    }
+  }
+
+  /**
+   * A tracked event with the opening and closing lines of its selections
+   */
+  public getEvent(eventId: number): TrackedEvent | null {
+    const entry = this.entries.get(eventId);
+    if (!entry) {
+      return null;
+    }
+
+    const lines = new Map((this.lineCapture.getEventLines(eventId)?.selections || []).map(line => [line.selectionId, line]));
+    const selections = Array.from(entry.selections.values()).map(selection => {
+      const line = lines.get(selection.selectionId);
+      return {
+        ...selection,
+        opening: line ? this.toPriceObservation(line.opening) : null,
+        closing: line?.closing ? this.toPriceObservation(line.closing) : null
+      };
+    });
+
+    return { ...entry.event, selections };
+  }
+
+  public getEvents(filter: { status?: TrackedEventStatus; sportId?: number } = {}): TrackedEventSummary[] {
+    return Array.from(this.entries.values())
+      .filter(entry => !filter.status || entry.event.status === filter.status)
+      .filter(entry => filter.sportId === undefined || entry.event.sportId === filter.sportId)
+      .map(entry => ({ ...entry.event, selectionCount: entry.selections.size }));
+  }
+
+  public close(): void {
+    if (this.handoverTimer) {
+      clearInterval(this.handoverTimer);
+      this.handoverTimer = null;
+    }
+  }
+
+  /**
+   * Hand every pre-game event whose start time passed over to live tracking, then drop old records
+   */
+  private async handOverStartedEvents(): Promise<void> {
+    if (this.handoverInProgress) {
+      return;
+    }
+    this.handoverInProgress = true;
+
+    try {
+      const now = Date.now();
+
+      for (const entry of Array.from(this.entries.values())) {
+        const startTime = entry.event.header.startTime;
+        if (entry.event.status !== 'pregame' || !startTime || startTime > now) {
+          continue;
+        }
+
+        // Events that cannot be tracked yet stay pre-game so the next check retries them
+        if (entry.event.sportId === null) {
+          continue;
+        }
+
+        try {
+          await this.liveService.trackEvent(entry.event.sportId, entry.event.header);
+        } catch (error) {
+          console.error(`Failed to hand event ${entry.event.eventId} over to live tracking:`, error);
+          continue;
+        }
+
+        // Live data may have handed the event over while trackEvent was pending
+        if (entry.event.status === 'pregame') {
+          this.markHandedOver(entry);
+        }
+      }
+
+      for (const [eventId, entry] of this.entries) {
+        // Pre-game events that were never handed over are dropped RETENTION ms after their start
+        const lastChange = entry.event.endedAt || entry.event.handedOverAt || entry.event.startTime;
+        if (lastChange && now - new Date(lastChange).getTime() > this.RETENTION) {
+          this.entries.delete(eventId);
+        }
+      }
+    } finally {
+      this.handoverInProgress = false;
+    }
+  }
+
+  private toPriceObservation(observation: LineObservation): PriceObservation {
+    return { price: observation.price, state: observation.state ?? '', at: observation.at.toISOString() };
+  }
+
+  private markHandedOver(entry: TrackerEntry): void {
+    entry.event.status = 'live';
+    entry.event.handedOverAt = new Date().toISOString();
+    console.log(`Event ${entry.event.eventId} handed over from pre-game to live tracking`);
+  }
+
+  /**
+   * Register the selections of an event's market groups, calling back with each one and its raw data
+   */
+  private forEachSelection(
+    entry: TrackerEntry,
+    marketGroups: MarketData[],
+    callback?: (selection: TrackedSelection, raw: Selection) => void
+  ): void {
+    for (const group of marketGroups) {
+      for (const market of group.markets) {
+        for (const raw of market.selections) {
+          let selection = entry.selections.get(raw.selectionId);
+          if (!selection) {
+            selection = {
+              selectionId: raw.selectionId,
+              selectionName: raw.name,
+              gameTemplateId: group.gameTemplateId,
+              marketGroupName: group.marketName,
+              marketId: market.marketId,
+              marketName: market.name,
+              opening: null,
+              closing: null,
+              live: []
+            };
+            entry.selections.set(raw.selectionId, selection);
+          }
+
+          callback?.(selection, raw);
+        }
+      }
+    }
+  }
+}
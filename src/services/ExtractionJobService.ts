@@ -0,0 +1,309 @@
+import { randomUUID } from 'crypto';
+import { MeridianbetDataService, PreGameResult, PreGameDelta } from './MeridianbetDataService';
+import { MeridianbetLiveService } from './MeridianbetLiveService';
+import { SportCatalogService } from './SportCatalogService';
+
+export type ExtractionMode = 'pregame' | 'live';
+export type ExtractionJobStatus = 'running' | 'stopped' | 'failed';
+
+export interface ExtractionJob {
+  id: string;
+  mode: ExtractionMode;
+  sport: string;
+  sportId: number;
+  interval: string | null;
+  incremental: boolean;
+  status: ExtractionJobStatus;
+  startedAt: Date;
+  stoppedAt: Date | null;
+  lastRunAt: Date | null;
+  runCount: number;
+  lastError: string | null;
+}
+
+export class ExtractionJobService {
+  private jobs: Map<string, ExtractionJob> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private runningExtractions: Set<string> = new Set();
+  private latestResults: Map<string, PreGameResult> = new Map();
+  private onPreGameResultCallback: ((job: ExtractionJob, result: PreGameResult) => void) | null = null;
+  private onPreGameDeltaCallback: ((job: ExtractionJob, delta: PreGameDelta, result: PreGameResult) => void) | null = null;
+  private onLiveStartedCallback: ((job: ExtractionJob) => void) | null = null;
+  private onErrorCallback: ((job: ExtractionJob, error: Error) => void) | null = null;
+
+  private readonly INTERVALS: { [key: string]: number } = {
+    '1min': 60 * 1000,
+    '5min': 5 * 60 * 1000,
+    '15min': 15 * 60 * 1000,
+    '30min': 30 * 60 * 1000,
+    '1hour': 60 * 60 * 1000
+  };
+  private readonly JOB_RETENTION = parseInt(process.env.EXTRACTION_JOB_RETENTION || '3600000'); // 1 hour default
+
+  constructor(
+    private dataService: MeridianbetDataService,
+    private liveService: MeridianbetLiveService,
+    private sportCatalog: SportCatalogService
+  ) { }
+
+  /**
+   * Set callback for completed pre-game extraction runs
+   */
+  public setPreGameResultCallback(callback: (job: ExtractionJob, result: PreGameResult) => void): void {
+    this.onPreGameResultCallback = callback;
+  }
+
+  /**
+   * Set callback for incremental pre-game refreshes, called instead of the result callback after the first run
+   */
+  public setPreGameDeltaCallback(callback: (job: ExtractionJob, delta: PreGameDelta, result: PreGameResult) => void): void {
+    this.onPreGameDeltaCallback = callback;
+  }
+
+  /**
+   * Set callback for live jobs whose subscription has been established
+   */
+  public setLiveStartedCallback(callback: (job: ExtractionJob) => void): void {
+    this.onLiveStartedCallback = callback;
+  }
+
+  /**
+   * Set callback for job errors
+   */
+  public setErrorCallback(callback: (job: ExtractionJob, error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  public getJobs(): ExtractionJob[] {
+    this.pruneJobs();
+    return Array.from(this.jobs.values());
+  }
+
+  public getJob(jobId: string): ExtractionJob | undefined {
+    this.pruneJobs();
+    return this.jobs.get(jobId);
+  }
+
+  public isSupportedInterval(interval: string): boolean {
+    return interval in this.INTERVALS;
+  }
+
+  public getIntervals(): string[] {
+    return Object.keys(this.INTERVALS);
+  }
+
+  /**
+   * Most recent pre-game result produced by a running job; results are released when the job stops
+   */
+  public getLatestResult(jobId: string): PreGameResult | undefined {
+    return this.latestResults.get(jobId);
+  }
+
+  public getRunningJobs(): ExtractionJob[] {
+    return this.getJobs().filter(job => job.status === 'running');
+  }
+
+  /**
+   * Start a new extraction job. Only one running job per mode and sport is allowed.
+   * Incremental pre-game jobs keep their last result and only refetch changed events on later runs.
+   */
+  public startJob(mode: ExtractionMode, sport: string, interval?: string | null, incremental = false): ExtractionJob {
+    if (mode !== 'pregame' && mode !== 'live') {
+      throw new Error(`Unknown mode: ${mode}`);
+    }
+    if (mode === 'pregame' && interval && !this.isSupportedInterval(interval)) {
+      throw new Error(`Invalid interval: ${interval} (expected one of ${this.getIntervals().join(', ')})`);
+    }
+
+    const sportEntry = this.sportCatalog.getSport(sport);
+    if (!sportEntry) {
+      throw new Error(`Unknown sport: ${sport}`);
+    }
+    sport = sportEntry.slug;
+    const sportId = sportEntry.sportId;
+
+    const duplicate = this.getRunningJobs().find(job => job.mode === mode && job.sport === sport);
+    if (duplicate) {
+      throw new Error(`A ${mode} extraction for ${sport} is already running (job ${duplicate.id})`);
+    }
+
+    const job: ExtractionJob = {
+      id: randomUUID(),
+      mode,
+      sport,
+      sportId,
+      interval: mode === 'pregame' ? (interval || '1min') : null,
+      incremental: mode === 'pregame' && incremental,
+      status: 'running',
+      startedAt: new Date(),
+      stoppedAt: null,
+      lastRunAt: null,
+      runCount: 0,
+      lastError: null
+    };
+
+    this.pruneJobs();
+    this.jobs.set(job.id, job);
+    console.log(`Starting ${mode} extraction job ${job.id} for ${sport}${job.interval ? ` with interval ${job.interval}` : ''}`);
+
+    // Run extraction immediately
+    this.runJob(job);
+
+    // Start periodic extraction only for pre-game mode
+    // Live mode uses WebSocket for real-time updates, no need for periodic extraction
+    if (mode === 'pregame') {
+      const intervalMs = this.INTERVALS[job.interval!];
+      this.timers.set(job.id, setInterval(() => this.runJob(job), intervalMs));
+    }
+
+    return job;
+  }
+
+  /**
+   * Stop a running job
+   */
+  public stopJob(jobId: string): ExtractionJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    if (job.status !== 'running') {
+      throw new Error(`Job ${jobId} is not running`);
+    }
+
+    console.log(`Stopping ${job.mode} extraction job ${job.id} for ${job.sport}`);
+
+    const timer = this.timers.get(jobId);
+    if (timer) {
+      clearInterval(timer);
+      this.timers.delete(jobId);
+    }
+
+    if (job.mode === 'live') {
+      this.liveService.stopLiveExtraction(job.sportId);
+    }
+
+    job.status = 'stopped';
+    job.stoppedAt = new Date();
+    this.latestResults.delete(jobId);
+    return job;
+  }
+
+  /**
+   * Stop every running job
+   */
+  public stopAll(): ExtractionJob[] {
+    return this.getRunningJobs().map(job => this.stopJob(job.id));
+  }
+
+  /**
+   * Mark every running live job failed after the live service stopped extracting on its own
+   */
+  public failLiveJobs(error: Error): ExtractionJob[] {
+    const jobs = this.getRunningJobs().filter(job => job.mode === 'live');
+
+    for (const job of jobs) {
+      job.status = 'failed';
+      job.stoppedAt = new Date();
+      job.lastError = error.message;
+
+      if (this.onErrorCallback) {
+        this.onErrorCallback(job, error);
+      }
+    }
+
+    return jobs;
+  }
+
+  private async runJob(job: ExtractionJob): Promise<void> {
+    if (this.runningExtractions.has(job.id)) {
+      console.log(`Job ${job.id} is still extracting, skipping this tick`);
+      return;
+    }
+
+    this.runningExtractions.add(job.id);
+
+    try {
+      console.log(`Running ${job.mode} extraction job ${job.id} for ${job.sport}`);
+
+      const previous = this.latestResults.get(job.id);
+
+      if (job.mode === 'pregame' && job.incremental && previous) {
+        const { result, delta } = await this.dataService.refreshPreGameData(job.sport, {}, previous);
+        this.markRun(job);
+        if (job.status !== 'running') {
+          return;
+        }
+        this.latestResults.set(job.id, result);
+
+        if (this.onPreGameDeltaCallback) {
+          this.onPreGameDeltaCallback(job, delta, result);
+        }
+      } else if (job.mode === 'pregame') {
+        const result = await this.dataService.extractPreGameData(job.sport);
+        this.markRun(job);
+        if (job.status !== 'running') {
+          return;
+        }
+        this.latestResults.set(job.id, result);
+
+        if (this.onPreGameResultCallback) {
+          this.onPreGameResultCallback(job, result);
+        }
+      } else {
+        await this.liveService.startLiveExtraction(job.sportId);
+
+        // The job was stopped while the subscription was being set up; undo it unless another job took over
+        if (job.status !== 'running') {
+          const owner = this.getRunningJobs().find(other => other.mode === 'live' && other.sportId === job.sportId);
+          if (!owner) {
+            console.log(`Live job ${job.id} was stopped while starting, stopping live extraction for ${job.sport}`);
+            this.liveService.stopLiveExtraction(job.sportId);
+          }
+          return;
+        }
+
+        this.markRun(job);
+
+        if (this.onLiveStartedCallback) {
+          this.onLiveStartedCallback(job);
+        }
+      }
+    } catch (error) {
+      console.error(`Extraction job ${job.id} error:`, error);
+      job.lastError = error instanceof Error ? error.message : 'Unknown error';
+
+      // A live job has nothing to retry on an interval, so it fails outright
+      if (job.mode === 'live' && job.status === 'running') {
+        job.status = 'failed';
+        job.stoppedAt = new Date();
+      }
+
+      if (this.onErrorCallback) {
+        this.onErrorCallback(job, error instanceof Error ? error : new Error('Unknown error'));
+      }
+    } finally {
+      this.runningExtractions.delete(job.id);
+    }
+  }
+
+  /**
+   * Forget stopped and failed jobs once they have been stopped for longer than the retention period
+   */
+  private pruneJobs(): void {
+    const cutoff = Date.now() - this.JOB_RETENTION;
+
+    for (const [jobId, job] of this.jobs) {
+      if (job.status !== 'running' && job.stoppedAt && job.stoppedAt.getTime() < cutoff) {
+        this.jobs.delete(jobId);
+        this.latestResults.delete(jobId);
+      }
+    }
+  }
+
+  private markRun(job: ExtractionJob): void {
+    job.lastRunAt = new Date();
+    job.runCount++;
+    job.lastError = null;
+  }
+}
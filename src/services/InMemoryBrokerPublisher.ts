@@ -0,0 +1,55 @@
+import type { BrokerMessage, BrokerPublisher } from './BrokerPublisher';
+
+/**
+ * Keeps published messages in memory per topic, for tests and local development
+ */
+export class InMemoryBrokerPublisher implements BrokerPublisher {
+  public readonly name = 'memory';
+  private topics: Map<string, BrokerMessage[]> = new Map();
+  private listeners: Set<(message: BrokerMessage) => void> = new Set();
+
+  constructor(private readonly maxMessagesPerTopic = 10000) { }
+
+  public async publish(messages: BrokerMessage[]): Promise<void> {
+    for (const message of messages) {
+      const topicMessages = this.topics.get(message.topic) || [];
+      topicMessages.push(message);
+      if (topicMessages.length > this.maxMessagesPerTopic) {
+        topicMessages.shift();
+      }
+      this.topics.set(message.topic, topicMessages);
+
+      this.listeners.forEach(listener => listener(message));
+    }
+  }
+
+  public getTopics(): string[] {
+    return Array.from(this.topics.keys());
+  }
+
+  /**
+   * Messages of one topic, or of every topic in publish order per topic
+   */
+  public getMessages(topic?: string): BrokerMessage[] {
+    if (topic) {
+      return [...(this.topics.get(topic) || [])];
+    }
+    return Array.from(this.topics.values()).flat();
+  }
+
+  /**
+   * Call the listener for every message published from now on; returns the unsubscribe function
+   */
+  public subscribe(listener: (message: BrokerMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public clear(): void {
+    this.topics.clear();
+  }
+
+  public async close(): Promise<void> {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,387 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventData, MarketData, MeridianbetDataService } from './MeridianbetDataService';
+import type { LiveDataUpdate } from './MeridianbetLiveService';
+
+export interface LineObservation {
+  price: number;
+  state: string | null;
+  at: Date;
+}
+
+export interface SelectionLine {
+  selectionId: string;
+  selectionName: string | null;
+  gameTemplateId: number;
+  marketGroupName: string | null;
+  marketId: number;
+  marketName: string | null;
+  handicap: number | null;
+  overUnder: number | null;
+  opening: LineObservation;          // First price ever observed
+  closing: LineObservation | null;   // Last price observed before the start, null if none was
+  current: LineObservation;          // Latest price observed, pre-game or live
+}
+
+export interface EventLines {
+  eventId: number;
+  sportId: number | null;
+  leagueId: number | null;
+  leagueName: string | null;
+  rivals: string[];
+  startTime: Date | null;
+  finalSnapshotAt: Date | null;      // When the scheduled pre-start snapshot was taken
+  selections: SelectionLine[];
+}
+
+// setTimeout fires immediately for longer delays; such events are scheduled by a later extraction
+const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * Opening and closing line of every pre-game selection. The first price observed for a selection is
+ * its opening line and the last one observed before the event's start time its closing line. Pre-game
+ * extractions run on a coarse interval, so a final snapshot of each event's markets is also scheduled
+ * shortly before its start.
+ */
+export class LineCaptureService {
+  private db: Database.Database | null = null;
+  private finalSnapshotTimers: Map<number, { startTime: number; timer: NodeJS.Timeout }> = new Map();
+  private readonly ENABLED = process.env.LINE_CAPTURE_ENABLED !== 'false';
+  private readonly DB_PATH = process.env.LINE_CAPTURE_DB_PATH || path.join(process.cwd(), 'data', 'odds-lines.db');
+  private readonly FINAL_SNAPSHOT_LEAD = parseInt(process.env.LINE_CAPTURE_FINAL_SNAPSHOT_LEAD || '300000'); // 5 minutes default
+
+  constructor(private dataService: MeridianbetDataService) { }
+
+  /**
+   * Open the database, create the schema if needed and schedule the final snapshots of upcoming events
+   */
+  public initialize(): void {
+    if (!this.ENABLED) {
+      console.log('Line capture is disabled (LINE_CAPTURE_ENABLED=false)');
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.DB_PATH), { recursive: true });
+    this.db = new Database(this.DB_PATH);
+    this.db.pragma('journal_mode = WAL');
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS line_events (
+        event_id INTEGER PRIMARY KEY,
+        sport_id INTEGER,
+        league_id INTEGER,
+        league_name TEXT,
+        rivals TEXT,
+        start_time INTEGER,
+        final_snapshot_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_line_events_league ON line_events (league_id, start_time);
+
+      CREATE TABLE IF NOT EXISTS selection_lines (
+        event_id INTEGER NOT NULL,
+        selection_id TEXT NOT NULL,
+        selection_name TEXT,
+        game_template_id INTEGER NOT NULL,
+        market_group_name TEXT,
+        market_id INTEGER NOT NULL,
+        market_name TEXT,
+        handicap REAL,
+        over_under REAL,
+        opening_price REAL NOT NULL,
+        opening_state TEXT,
+        opening_at INTEGER NOT NULL,
+        closing_price REAL,
+        closing_state TEXT,
+        closing_at INTEGER,
+        current_price REAL NOT NULL,
+        current_state TEXT,
+        current_at INTEGER NOT NULL,
+        PRIMARY KEY (event_id, selection_id)
+      );
+    `);
+
+    const upcoming = this.db.prepare(
+      'SELECT event_id, start_time FROM line_events WHERE final_snapshot_at IS NULL AND start_time > ?'
+    ).all(Date.now()) as Array<{ event_id: number; start_time: number }>;
+    upcoming.forEach(row => this.scheduleFinalSnapshot(row.event_id, row.start_time));
+
+    console.log(`Line capture database opened at ${this.DB_PATH}, ${upcoming.length} final snapshots scheduled`);
+  }
+
+  /**
+   * Record the selections of a pre-game extraction and schedule a final snapshot for each event
+   */
+  public recordPreGameData(events: EventData[], markets: Map<number, MarketData[]>): void {
+    if (!this.db) {
+      return;
+    }
+
+    const capturedAt = Date.now();
+    const upsertEvent = this.db.prepare(`
+      INSERT INTO line_events (event_id, sport_id, league_id, league_name, rivals, start_time)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (event_id) DO UPDATE SET
+        sport_id = excluded.sport_id,
+        league_id = excluded.league_id,
+        league_name = excluded.league_name,
+        rivals = excluded.rivals,
+        start_time = excluded.start_time,
+        final_snapshot_at = CASE WHEN excluded.start_time IS NOT start_time THEN NULL ELSE final_snapshot_at END
+    `);
+
+    let selections = 0;
+
+    const write = this.db.transaction(() => {
+      for (const event of events) {
+        const header = event.header;
+        upsertEvent.run(
+          header.eventId,
+          header.sport?.sportId ?? null,
+          header.league?.leagueId ?? null,
+          header.league?.name ?? null,
+          JSON.stringify(header.rivals || []),
+          header.startTime ?? null
+        );
+        selections += this.recordMarkets(header.eventId, header.startTime ?? null, markets.get(header.eventId) || [], capturedAt);
+      }
+    });
+
+    try {
+      write();
+      console.log(`Captured lines for ${events.length} events, ${selections} selections`);
+    } catch (error) {
+      console.error('Failed to capture lines:', error);
+      return;
+    }
+
+    for (const event of events) {
+      if (event.header.startTime) {
+        this.scheduleFinalSnapshot(event.header.eventId, event.header.startTime);
+      }
+    }
+  }
+
+  /**
+   * Update the current price of selections whose lines were captured before the event went live
+   */
+  public recordLiveData(update: LiveDataUpdate): void {
+    if (!this.db || update.events.length === 0) {
+      return;
+    }
+
+    const capturedAt = Date.now();
+    const updateCurrent = this.db.prepare(`
+      UPDATE selection_lines SET current_price = ?, current_state = ?, current_at = ?
+      WHERE event_id = ? AND selection_id = ? AND (current_price != ? OR current_state IS NOT ?)
+    `);
+
+    const write = this.db.transaction(() => {
+      for (const event of update.events) {
+        const eventId = event.header.eventId;
+        this.forEachSelection(update.markets[eventId] || [], (group, market, selection) => {
+          updateCurrent.run(selection.price, selection.state, capturedAt, eventId, selection.selectionId, selection.price, selection.state);
+        });
+      }
+    });
+
+    try {
+      write();
+    } catch (error) {
+      console.error('Failed to update live lines:', error);
+    }
+  }
+
+  /**
+   * Opening, closing and current line of every selection of an event
+   */
+  public getEventLines(eventId: number): EventLines | null {
+    if (!this.db) {
+      return null;
+    }
+
+    const row = this.db.prepare('SELECT * FROM line_events WHERE event_id = ?').get(eventId);
+    return row ? this.mapEventRow(row) : null;
+  }
+
+  /**
+   * Lines of every event of a league, optionally only events starting within a time range
+   */
+  public getLeagueLines(leagueId: number, range: { from?: Date; to?: Date } = {}): EventLines[] {
+    if (!this.db) {
+      return [];
+    }
+
+    let clause = '';
+    const params: number[] = [leagueId];
+    if (range.from) {
+      clause += ' AND start_time >= ?';
+      params.push(range.from.getTime());
+    }
+    if (range.to) {
+      clause += ' AND start_time <= ?';
+      params.push(range.to.getTime());
+    }
+
+    const rows = this.db.prepare(
+      `SELECT * FROM line_events WHERE league_id = ?${clause} ORDER BY start_time ASC, event_id ASC`
+    ).all(...params);
+
+    return rows.map(row => this.mapEventRow(row));
+  }
+
+  /**
+   * Cancel the scheduled snapshots and close the database
+   */
+  public close(): void {
+    this.finalSnapshotTimers.forEach(({ timer }) => clearTimeout(timer));
+    this.finalSnapshotTimers.clear();
+
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  /**
+   * Upsert the lines of an event's selections; the closing line only moves while the event has not started
+   */
+  private recordMarkets(eventId: number, startTime: number | null, marketGroups: MarketData[], capturedAt: number): number {
+    const beforeStart = startTime === null || capturedAt < startTime;
+    const upsertLine = this.db!.prepare(`
+      INSERT INTO selection_lines (event_id, selection_id, selection_name, game_template_id, market_group_name, market_id,
+        market_name, handicap, over_under, opening_price, opening_state, opening_at, closing_price, closing_state, closing_at,
+        current_price, current_state, current_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (event_id, selection_id) DO UPDATE SET
+        selection_name = excluded.selection_name,
+        market_group_name = excluded.market_group_name,
+        market_name = excluded.market_name,
+        closing_price = COALESCE(excluded.closing_price, closing_price),
+        closing_state = CASE WHEN excluded.closing_at IS NULL THEN closing_state ELSE excluded.closing_state END,
+        closing_at = COALESCE(excluded.closing_at, closing_at),
+        current_price = excluded.current_price,
+        current_state = excluded.current_state,
+        current_at = excluded.current_at
+    `);
+
+    let count = 0;
+    this.forEachSelection(marketGroups, (group, market, selection) => {
+      upsertLine.run(
+        eventId,
+        selection.selectionId,
+        selection.name,
+        group.gameTemplateId,
+        group.marketName,
+        market.marketId,
+        market.name,
+        market.handicap ?? null,
+        market.overUnder ?? null,
+        selection.price,
+        selection.state,
+        capturedAt,
+        beforeStart ? selection.price : null,
+        beforeStart ? selection.state : null,
+        beforeStart ? capturedAt : null,
+        selection.price,
+        selection.state,
+        capturedAt
+      );
+      count++;
+    });
+
+    return count;
+  }
+
+  /**
+   * Schedule a snapshot of the event's markets FINAL_SNAPSHOT_LEAD ms before its start, replacing one
+   * scheduled for an earlier start time
+   */
+  private scheduleFinalSnapshot(eventId: number, startTime: number): void {
+    const scheduled = this.finalSnapshotTimers.get(eventId);
+    if (scheduled?.startTime === startTime) {
+      return;
+    }
+    if (scheduled) {
+      clearTimeout(scheduled.timer);
+      this.finalSnapshotTimers.delete(eventId);
+    }
+
+    const delay = startTime - this.FINAL_SNAPSHOT_LEAD - Date.now();
+    if (startTime <= Date.now() || delay > MAX_TIMER_DELAY) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.finalSnapshotTimers.delete(eventId);
+      this.takeFinalSnapshot(eventId, startTime)
+        .catch(error => console.error(`Final line snapshot failed for event ${eventId}:`, error));
+    }, Math.max(0, delay));
+
+    this.finalSnapshotTimers.set(eventId, { startTime, timer });
+  }
+
+  private async takeFinalSnapshot(eventId: number, startTime: number): Promise<void> {
+    const markets = await this.dataService.getEventMarkets(eventId);
+    if (!this.db) {
+      return;
+    }
+    if (markets.length === 0) {
+      console.log(`No markets for the final line snapshot of event ${eventId}`);
+      return;
+    }
+
+    const capturedAt = Date.now();
+    let selections = 0;
+    this.db.transaction(() => {
+      selections = this.recordMarkets(eventId, startTime, markets, capturedAt);
+      this.db!.prepare('UPDATE line_events SET final_snapshot_at = ? WHERE event_id = ?').run(capturedAt, eventId);
+    })();
+
+    console.log(`Final line snapshot for event ${eventId}: ${selections} selections, ${Math.round((startTime - capturedAt) / 1000)}s before start`);
+  }
+
+  private forEachSelection(
+    marketGroups: MarketData[],
+    callback: (group: MarketData, market: MarketData['markets'][number], selection: MarketData['markets'][number]['selections'][number]) => void
+  ): void {
+    for (const group of marketGroups) {
+      for (const market of group.markets) {
+        for (const selection of market.selections) {
+          callback(group, market, selection);
+        }
+      }
+    }
+  }
+
+  private mapEventRow(row: any): EventLines {
+    const lines = this.db!.prepare(
+      'SELECT * FROM selection_lines WHERE event_id = ? ORDER BY game_template_id ASC, market_id ASC, selection_id ASC'
+    ).all(row.event_id) as any[];
+
+    return {
+      eventId: row.event_id,
+      sportId: row.sport_id,
+      leagueId: row.league_id,
+      leagueName: row.league_name,
+      rivals: row.rivals ? JSON.parse(row.rivals) : [],
+      startTime: row.start_time !== null ? new Date(row.start_time) : null,
+      finalSnapshotAt: row.final_snapshot_at !== null ? new Date(row.final_snapshot_at) : null,
+      selections: lines.map(line => ({
+        selectionId: line.selection_id,
+        selectionName: line.selection_name,
+        gameTemplateId: line.game_template_id,
+        marketGroupName: line.market_group_name,
+        marketId: line.market_id,
+        marketName: line.market_name,
+        handicap: line.handicap,
+        overUnder: line.over_under,
+        opening: { price: line.opening_price, state: line.opening_state, at: new Date(line.opening_at) },
+        closing: line.closing_at !== null
+          ? { price: line.closing_price, state: line.closing_state, at: new Date(line.closing_at) }
+          : null,
+        current: { price: line.current_price, state: line.current_state, at: new Date(line.current_at) }
+      }))
+    };
+  }
+}
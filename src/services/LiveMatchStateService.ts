@@ -0,0 +1,282 @@
+import { randomUUID } from 'crypto';
+import type { RawEventHeader } from './MeridianbetDataService';
+import { MeridianbetMapper } from './MeridianbetMapper';
+import {
+  MatchIncident,
+  MatchIncidentType,
+  MatchPhase,
+  MatchSide,
+  MatchState,
+  PeriodScore
+} from '../models/canonical';
+
+const FOOTBALL_SPORT_ID = 58;
+const BASKETBALL_SPORT_ID = 55;
+const TENNIS_SPORT_ID = 56;
+
+const SIDES: MatchSide[] = ['home', 'away'];
+
+/**
+ * Phase of a live event from its upstream state and clock text
+ */
+export function parseMatchPhase(header: Pick<RawEventHeader, 'state' | 'matchTime'>): MatchPhase {
+  const text = `${header.state || ''} ${header.matchTime || ''}`;
+
+  if (/cancel|abandon|postpone|interrupt/i.test(text)) {
+    return 'cancelled';
+  }
+  if (/finish|ended|complete|\bft\b/i.test(text)) {
+    return 'finished';
+  }
+  if (/\bht\b|half.?time|break|pause/i.test(text)) {
+    return 'break';
+  }
+  return 'in-play';
+}
+
+/**
+ * Typed match state of every live event, built from the score, clock and card fields of its header.
+ * Each header is compared with the previous state of the event to detect incidents: goals and
+ * cards, the end of a period or set, and the end of the match.
+ */
+export class LiveMatchStateService {
+  private states: Map<number, MatchState> = new Map();
+  private incidents: Map<number, MatchIncident[]> = new Map();
+  private onIncidentsCallback: ((incidents: MatchIncident[]) => void) | null = null;
+  private readonly INCIDENT_LIMIT = parseInt(process.env.MATCH_INCIDENT_LIMIT || '200');
+
+  constructor(private mapper: MeridianbetMapper) { }
+
+  /**
+   * Set callback for incidents detected by an update
+   */
+  public setIncidentsCallback(callback: (incidents: MatchIncident[]) => void): void {
+    this.onIncidentsCallback = callback;
+  }
+
+  /**
+   * Update the state of each event from its latest header and return the incidents since the previous header.
+   * The first header seen for an event only sets its baseline.
+   */
+  public update(headers: RawEventHeader[]): MatchIncident[] {
+    const incidents: MatchIncident[] = [];
+
+    for (const header of headers) {
+      const state = this.buildState(header);
+      const previous = this.states.get(header.eventId);
+      this.states.set(header.eventId, state);
+
+      if (!previous) {
+        continue;
+      }
+
+      const eventIncidents = this.detectIncidents(previous, state);
+      if (eventIncidents.length > 0) {
+        const recorded = [...(this.incidents.get(header.eventId) || []), ...eventIncidents];
+        this.incidents.set(header.eventId, recorded.slice(-this.INCIDENT_LIMIT));
+        incidents.push(...eventIncidents);
+      }
+    }
+
+    if (incidents.length > 0 && this.onIncidentsCallback) {
+      this.onIncidentsCallback(incidents);
+    }
+
+    return incidents;
+  }
+
+  /**
+   * Forget events that left the live offer
+   */
+  public remove(eventIds: number[]): void {
+    for (const eventId of eventIds) {
+      this.states.delete(eventId);
+      this.incidents.delete(eventId);
+    }
+  }
+
+  public getState(eventId: number): MatchState | null {
+    return this.states.get(eventId) || null;
+  }
+
+  public getIncidents(eventId: number): MatchIncident[] {
+    return this.incidents.get(eventId) || [];
+  }
+
+  private buildState(header: RawEventHeader): MatchState {
+    const score = this.mapper.mapScore(header);
+    const periods = score?.periods ?? [];
+    const phase = parseMatchPhase(header);
+
+    const base = {
+      eventId: header.eventId,
+      sportId: header.sport?.sportId ?? null,
+      phase,
+      state: header.state ?? null,
+      matchTime: header.matchTime || null,
+      minute: this.parseMinute(header.matchTime),
+      period: periods.length > 0 ? periods.length : null,
+      updatedAt: new Date()
+    };
+    const total: PeriodScore = { home: score?.home ?? null, away: score?.away ?? null };
+
+    switch (base.sportId) {
+      case FOOTBALL_SPORT_ID:
+        return {
+          ...base,
+          sport: 'football',
+          score: total,
+          halves: periods,
+          redCards: score?.redCards ?? { home: 0, away: 0 },
+          yellowCards: score?.yellowCards ?? { home: 0, away: 0 }
+        };
+
+      case BASKETBALL_SPORT_ID:
+        return { ...base, sport: 'basketball', score: total, quarters: periods };
+
+      case TENNIS_SPORT_ID:
+        return {
+          ...base,
+          sport: 'tennis',
+          sets: periods,
+          setsWon: this.countSetsWon(periods, phase === 'finished'),
+          points: this.parsePoints(header),
+          serving: this.parseServing(header)
+        };
+
+      default:
+        return { ...base, sport: 'other', score: total, periods };
+    }
+  }
+
+  private detectIncidents(previous: MatchState, current: MatchState): MatchIncident[] {
+    const incidents: MatchIncident[] = [];
+    const add = (type: MatchIncidentType, side: MatchSide | null, score: PeriodScore | null, period = current.period) => {
+      incidents.push({
+        id: randomUUID(),
+        eventId: current.eventId,
+        sportId: current.sportId,
+        type,
+        side,
+        period,
+        matchTime: current.matchTime,
+        score,
+        at: current.updatedAt
+      });
+    };
+
+    if (previous.sport === 'football' && current.sport === 'football') {
+      this.getIncreases(previous.score, current.score).forEach(side => add('goal', side, current.score));
+      this.getIncreases(previous.redCards, current.redCards).forEach(side => add('red-card', side, current.score));
+      this.getIncreases(previous.yellowCards, current.yellowCards).forEach(side => add('yellow-card', side, current.score));
+    }
+
+    if (previous.sport === 'tennis' && current.sport === 'tennis') {
+      this.getIncreases(previous.setsWon, current.setsWon).forEach(side => add('set-won', side, current.setsWon));
+    } else if (current.phase === 'break' && previous.phase !== 'break') {
+      add('period-end', null, this.getScore(current));
+    } else if (previous.period !== null && current.period !== null && current.period > previous.period && previous.phase !== 'break') {
+      // A new period appeared without a break in between, so the previous one ended
+      add('period-end', null, this.getScore(previous), previous.period);
+    }
+
+    if (current.phase === 'finished' && previous.phase !== 'finished') {
+      const score = this.getScore(current);
+      add('match-finished', this.getLeader(score), score);
+    }
+
+    return incidents;
+  }
+
+  /**
+   * Score of the match: sets won for tennis, goals or points otherwise
+   */
+  private getScore(state: MatchState): PeriodScore {
+    return state.sport === 'tennis' ? state.setsWon : state.score;
+  }
+
+  private getLeader(score: PeriodScore): MatchSide | null {
+    if (score.home === null || score.away === null || score.home === score.away) {
+      return null;
+    }
+    return score.home > score.away ? 'home' : 'away';
+  }
+
+  /**
+   * One side per unit a count went up, e.g. two home goals between headers give ['home', 'home']
+   */
+  private getIncreases(previous: PeriodScore, current: PeriodScore): MatchSide[] {
+    const sides: MatchSide[] = [];
+
+    for (const side of SIDES) {
+      const before = previous[side];
+      const after = current[side];
+      if (before !== null && after !== null) {
+        for (let count = before; count < after; count++) {
+          sides.push(side);
+        }
+      }
+    }
+
+    return sides;
+  }
+
+  private countSetsWon(sets: PeriodScore[], finished: boolean): PeriodScore {
+    // The last set is still being played unless the match is over
+    const completed = finished ? sets : sets.slice(0, -1);
+    const won = { home: 0, away: 0 };
+
+    for (const set of completed) {
+      const winner = this.getLeader(set);
+      if (winner) {
+        won[winner]++;
+      }
+    }
+
+    return won;
+  }
+
+  /**
+   * Minute of clocks like "67'" or "45+2'"
+   */
+  private parseMinute(matchTime: string | undefined): number | null {
+    const match = /^(\d+)(?:\s*\+\s*(\d+))?'?$/.exec((matchTime || '').trim());
+    if (!match) {
+      return null;
+    }
+    return parseInt(match[1]) + (match[2] ? parseInt(match[2]) : 0);
+  }
+
+  /**
+   * Points of the current game, from a "30:15" style extraData entry
+   */
+  private parsePoints(header: RawEventHeader): { home: string | null; away: string | null } | null {
+    const value = this.findExtraData(header, /point|gamescore|currentgame/i);
+    if (!value) {
+      return null;
+    }
+
+    const [home, away] = value.split(/[:\-]/).map(part => part.trim());
+    return { home: home || null, away: away || null };
+  }
+
+  private parseServing(header: RawEventHeader): MatchSide | null {
+    const value = this.findExtraData(header, /serv/i);
+    if (value && /^(1|home)$/i.test(value.trim())) {
+      return 'home';
+    }
+    if (value && /^(2|away)$/i.test(value.trim())) {
+      return 'away';
+    }
+    return null;
+  }
+
+  /**
+   * The current game and the server are only in the free-form extraData, whose key names vary by feed
+   */
+  private findExtraData(header: RawEventHeader, keyPattern: RegExp): string | null {
+    const extraData = header.result?.extraData || {};
+    const key = Object.keys(extraData).find(key => keyPattern.test(key));
+    return key !== undefined ? String(extraData[key]) : null;
+  }
+}
@@ -0,0 +1,207 @@
+import type { EventData, MarketData } from './MeridianbetDataService';
+import type { LiveDataUpdate } from './MeridianbetLiveService';
+import type { MarketAnalytics } from '../models/canonical';
+import { withMarketAnalytics } from './MarketAnalytics';
+
+export type LivePatchOp =
+  | { op: 'event'; eventId: number; header: EventData['header'] }  // Event added or its header changed
+  | { op: 'event-removed'; eventId: number }
+  | { op: 'market'; eventId: number; market: MarketData }          // Market group added or its markets/selections changed shape
+  | { op: 'market-removed'; eventId: number; gameTemplateId: number }
+  | {
+    op: 'selection';
+    eventId: number;
+    gameTemplateId: number;
+    marketId: number;
+    selectionId: string;
+    price: number;
+    state: string;
+    analytics: MarketAnalytics | null;  // Analytics of the selection's market after the change
+  };
+
+export interface LivePatch {
+  id: string;
+  seq: number;
+  ops: LivePatchOp[];
+  lastUpdate: string;
+}
+
+export interface LiveSnapshot {
+  id: string;
+  seq: number;
+  events: Array<{ header: EventData['header'] }>;
+  markets: Record<number, MarketData[]>;
+  lastUpdate: string | null;
+}
+
+/**
+ * Versioned view of the live state for SSE clients. Every live update is diffed against the last
+ * published state into a sequence-numbered patch of event, market and selection operations. Recent
+ * patches are buffered so a reconnecting client can resume from its Last-Event-ID; clients that are
+ * further behind get a full snapshot instead.
+ */
+export class LiveStateStream {
+  private readonly BUFFER_SIZE = parseInt(process.env.LIVE_STREAM_BUFFER_SIZE || '1000');
+
+  // Event IDs are "<streamId>.<seq>" so IDs from before a restart never match this process
+  private readonly streamId = Date.now().toString(36);
+  private seq = 0;
+  private buffer: LivePatch[] = [];
+  private headers: Map<number, EventData['header']> = new Map();
+  private markets: Map<number, MarketData[]> = new Map();
+  private lastUpdate: string | null = null;
+
+  /**
+   * Apply a live update and return the resulting patch, or null when nothing visible changed
+   */
+  public publish(update: LiveDataUpdate): LivePatch | null {
+    const ops: LivePatchOp[] = [];
+
+    for (const eventId of update.removedEventIds) {
+      if (this.headers.delete(eventId)) {
+        this.markets.delete(eventId);
+        ops.push({ op: 'event-removed', eventId });
+      }
+    }
+
+    for (const event of update.events) {
+      const eventId = event.header.eventId;
+      // The live service mutates its objects in place, so keep copies to diff against next time
+      const header: EventData['header'] = JSON.parse(JSON.stringify(event.header));
+      const markets: MarketData[] = withMarketAnalytics(JSON.parse(JSON.stringify(update.markets[eventId] || [])));
+
+      const previousHeader = this.headers.get(eventId);
+      if (!previousHeader || JSON.stringify(previousHeader) !== JSON.stringify(header)) {
+        ops.push({ op: 'event', eventId, header });
+      }
+
+      ops.push(...this.diffMarkets(eventId, this.markets.get(eventId) || [], markets));
+      this.headers.set(eventId, header);
+      this.markets.set(eventId, markets);
+    }
+
+    this.lastUpdate = update.lastUpdate;
+
+    if (ops.length === 0) {
+      return null;
+    }
+
+    this.seq++;
+    const patch: LivePatch = { id: this.formatId(this.seq), seq: this.seq, ops, lastUpdate: update.lastUpdate };
+
+    this.buffer.push(patch);
+    if (this.buffer.length > this.BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    return patch;
+  }
+
+  /**
+   * Full state at the current sequence number
+   */
+  public getSnapshot(): LiveSnapshot {
+    return {
+      id: this.formatId(this.seq),
+      seq: this.seq,
+      events: Array.from(this.headers.values()).map(header => ({ header })),
+      markets: Object.fromEntries(this.markets),
+      lastUpdate: this.lastUpdate
+    };
+  }
+
+  public getHeader(eventId: number): EventData['header'] | undefined {
+    return this.headers.get(eventId);
+  }
+
+  public getMarketGroup(eventId: number, gameTemplateId: number): MarketData | undefined {
+    return this.markets.get(eventId)?.find(group => group.gameTemplateId === gameTemplateId);
+  }
+
+  /**
+   * Patches after the given event ID, or null when it is unknown or too old to resume from
+   */
+  public getPatchesSince(lastEventId: string): LivePatch[] | null {
+    const [streamId, seqText] = lastEventId.split('.');
+    const seq = parseInt(seqText);
+
+    if (streamId !== this.streamId || isNaN(seq) || seq > this.seq) {
+      return null;
+    }
+    if (seq === this.seq) {
+      return [];
+    }
+
+    const oldestSeq = this.buffer.length > 0 ? this.buffer[0].seq : this.seq + 1;
+    if (seq < oldestSeq - 1) {
+      return null;
+    }
+
+    return this.buffer.filter(patch => patch.seq > seq);
+  }
+
+  private diffMarkets(eventId: number, previous: MarketData[], current: MarketData[]): LivePatchOp[] {
+    const ops: LivePatchOp[] = [];
+    const previousGroups = new Map(previous.map(group => [group.gameTemplateId, group]));
+    const currentIds = new Set(current.map(group => group.gameTemplateId));
+
+    for (const group of current) {
+      const previousGroup = previousGroups.get(group.gameTemplateId);
+
+      // Anything beyond price and state changes of known selections resends the whole group
+      if (!previousGroup || this.getShape(previousGroup) !== this.getShape(group)) {
+        ops.push({ op: 'market', eventId, market: group });
+        continue;
+      }
+
+      const previousSelections = new Map(previousGroup.markets.flatMap(market =>
+        market.selections.map(selection => [`${market.marketId}:${selection.selectionId}`, selection] as const)
+      ));
+
+      for (const market of group.markets) {
+        for (const selection of market.selections) {
+          const previousSelection = previousSelections.get(`${market.marketId}:${selection.selectionId}`);
+          if (previousSelection && previousSelection.price === selection.price && previousSelection.state === selection.state) {
+            continue;
+          }
+
+          ops.push({
+            op: 'selection',
+            eventId,
+            gameTemplateId: group.gameTemplateId,
+            marketId: market.marketId,
+            selectionId: selection.selectionId,
+            price: selection.price,
+            state: selection.state,
+            analytics: market.analytics ?? null
+          });
+        }
+      }
+    }
+
+    for (const group of previous) {
+      if (!currentIds.has(group.gameTemplateId)) {
+        ops.push({ op: 'market-removed', eventId, gameTemplateId: group.gameTemplateId });
+      }
+    }
+
+    return ops;
+  }
+
+  /**
+   * Serialized market group without selection prices and states, and the analytics derived from them
+   */
+  private getShape(group: MarketData): string {
+    return JSON.stringify({
+      ...group,
+      markets: group.markets.map(({ analytics, ...market }) => ({
+        ...market,
+        selections: market.selections.map(({ price, state, ...selection }) => selection)
+      }))
+    });
+  }
+
+  private formatId(seq: number): string {
+    return `${this.streamId}.${seq}`;
+  }
+}
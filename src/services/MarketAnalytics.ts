@@ -0,0 +1,126 @@
+import type { FairOddsMethod, MarketAnalytics } from '../models/canonical';
+import type { MarketData } from './MeridianbetDataService';
+
+export const FAIR_ODDS_METHODS: FairOddsMethod[] = ['proportional', 'shin', 'power'];
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-12;
+const DECIMALS = 6;
+
+/**
+ * Overround, margin, implied probabilities and fair odds of a market. The outcomes are assumed to be
+ * mutually exclusive and exhaustive, as they are for one line of a betshop market, so the market has
+ * no analytics while any outcome is not ACTIVE. Outcomes priced at 1.00 or lower carry no probability
+ * information and are left out; null when fewer than two remain.
+ */
+export function computeMarketAnalytics(outcomes: Array<{ id: string; price: number; state: string }>): MarketAnalytics | null {
+  if (outcomes.some(outcome => outcome.state !== 'ACTIVE')) {
+    return null;
+  }
+
+  const priced = outcomes.filter(outcome => Number.isFinite(outcome.price) && outcome.price > 1);
+  if (priced.length < 2) {
+    return null;
+  }
+
+  const implied = priced.map(outcome => 1 / outcome.price);
+  const overround = implied.reduce((sum, probability) => sum + probability, 0);
+
+  const shinZ = solveShinZ(implied, overround);
+  const powerExponent = solvePowerExponent(implied);
+  const proportional = implied.map(probability => probability / overround);
+  const fair: Record<FairOddsMethod, number[]> = {
+    proportional,
+    // Shin's model has no solution without a margin, proportional probabilities are used then
+    shin: overround > 1 ? implied.map(probability => shinProbability(probability, overround, shinZ)) : proportional,
+    power: implied.map(probability => Math.pow(probability, powerExponent))
+  };
+
+  return {
+    overround: round(overround),
+    margin: round(overround - 1),
+    payout: round(1 / overround),
+    shinZ: round(shinZ),
+    powerExponent: round(powerExponent),
+    outcomes: priced.map((outcome, index) => ({
+      outcomeId: outcome.id,
+      impliedProbability: round(implied[index]),
+      fairProbability: mapMethods(method => round(fair[method][index])),
+      fairPrice: mapMethods(method => round(1 / fair[method][index]))
+    }))
+  };
+}
+
+/**
+ * Copies of raw market groups with the analytics of every market
+ */
+export function withMarketAnalytics(groups: MarketData[]): MarketData[] {
+  return groups.map(group => ({
+    ...group,
+    markets: group.markets.map(market => ({
+      ...market,
+      analytics: computeMarketAnalytics(market.selections.map(selection => ({ id: selection.selectionId, price: selection.price, state: selection.state })))
+    }))
+  }));
+}
+
+/**
+ * Shin's fair probability of an outcome for a given share z of insider money
+ */
+function shinProbability(implied: number, overround: number, z: number): number {
+  return (Math.sqrt(z * z + 4 * (1 - z) * implied * implied / overround) - z) / (2 * (1 - z));
+}
+
+/**
+ * The z for which Shin's probabilities sum to 1. Their sum falls as z grows from sqrt(overround) at
+ * z = 0, so only a market with a margin has a solution; z is 0 otherwise.
+ */
+function solveShinZ(implied: number[], overround: number): number {
+  if (overround <= 1) {
+    return 0;
+  }
+
+  const total = (z: number) => implied.reduce((sum, probability) => sum + shinProbability(probability, overround, z), 0);
+  return bisect(z => total(z) - 1, 0, 1 - TOLERANCE);
+}
+
+/**
+ * The exponent k for which the implied probabilities raised to k sum to 1; above 1 when there is a margin
+ */
+function solvePowerExponent(implied: number[]): number {
+  const total = (k: number) => implied.reduce((sum, probability) => sum + Math.pow(probability, k), 0);
+
+  // The sum falls as k grows; widen the upper bound until it brackets 1
+  let upper = 2;
+  while (total(upper) > 1 && upper < 1e6) {
+    upper *= 2;
+  }
+  return bisect(k => total(k) - 1, TOLERANCE, upper);
+}
+
+/**
+ * Root of a decreasing function between lower and upper
+ */
+function bisect(fn: (x: number) => number, lower: number, upper: number): number {
+  let low = lower;
+  let high = upper;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS && high - low > TOLERANCE; iteration++) {
+    const middle = (low + high) / 2;
+    if (fn(middle) > 0) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+function mapMethods(fn: (method: FairOddsMethod) => number): Record<FairOddsMethod, number> {
+  return Object.fromEntries(FAIR_ODDS_METHODS.map(method => [method, fn(method)])) as Record<FairOddsMethod, number>;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(DECIMALS));
+}
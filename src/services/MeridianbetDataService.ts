@@ -1,4 +1,7 @@
-import { MeridianbetTokenService, TokenData } from './MeridianbetTokenService';
+import { BetshopHttpClient } from './BetshopHttpClient';
+import { SelectionNameResolver } from './SelectionNameResolver';
+import { SportCatalogService } from './SportCatalogService';
+import type { MarketAnalytics } from '../models/canonical';
 
 export interface LeagueData {
   regionId: number;
@@ -11,12 +14,73 @@ export interface LeagueData {
   events: EventData[];
 }
 
-export interface EventData {
-  header: {
-    eventId: number;
-    [key: string]: any;
+/**
+ * Event header as sent by the betshop API. Pre-game league listings omit sport, region and league,
+ * those are filled in from the enclosing league by processLeaguesResponse.
+ */
+export interface RawEventHeader {
+  eventId: number;
+  code?: string;
+  offerType?: string;
+  offerSubType?: string;
+  startTime?: number;
+  state?: string;
+  sport?: {
+    sportId: number;
+    name: string;
+    slug: string;
+  };
+  region?: {
+    regionId: number;
+    name: string;
+    slug: string;
+  };
+  league?: {
+    leagueId: number;
+    name: string;
+    slug: string;
+    favoriteLeague: boolean;
+  };
+  result?: {
+    periods: any[];
+    extraData: Record<string, string>;
   };
-  [key: string]: any;
+  formattedResult?: {
+    periodScores: any[];
+    redCards: number[];
+    yellowCards: number[];
+  };
+  matchTime?: string;
+  rivals?: string[];
+  rivalsSlug?: string;
+  periodDuration?: string;
+  topMatch?: boolean;
+  setEventOrder?: number;
+  numberOfVisibleSelections?: number;
+  hasEarlyPayout?: boolean;
+}
+
+export interface EventData {
+  header: RawEventHeader;
+  positions?: RawOfferPosition[];
+}
+
+export interface RawOfferPosition {
+  index: number;
+  groups: Array<{
+    selections?: Array<{
+      selectionId: string;
+      state: string;
+      price: number;
+      marketId: number;
+      gameTemplateId: number;
+      placeholder: boolean;
+    }>;
+    overUnder?: number;
+    name?: string;
+    containsTemplateWithVariableMarketName: boolean;
+    earlyPayoutMarket: boolean;
+  }>;
 }
 
 export interface MarketData {
@@ -37,6 +101,7 @@ export interface Market {
   overUnder?: number;
   handicap?: number;
   isEarlyPayout: boolean;
+  analytics?: MarketAnalytics | null;  // Not sent by the betshop API, added to outgoing payloads by withMarketAnalytics
 }
 
 export interface Selection {
@@ -58,6 +123,66 @@ export interface LeaguesResponse {
   };
 }
 
+/**
+ * Filters for a pre-game extraction. Leagues and regions are filtered after each page is fetched,
+ * the upstream listing endpoint has no parameters for them.
+ */
+export interface PreGameQuery {
+  time?: string;  // One of getTimeFilters(), defaults to ONE_DAY
+  leagueIds?: number[];
+  regionIds?: number[];
+  maxPages?: number;
+}
+
+/**
+ * Time windows believed to be accepted by the leagues endpoint. Only ONE_DAY, what the site requests
+ * by default, is verified; the others are unverified until the upstream reports them in
+ * usedTimeFilter/firstAvailableTimeFilter. Filters reported there are added as they are seen.
+ */
+export const PRE_GAME_TIME_FILTERS = ['ONE_HOUR', 'THREE_HOURS', 'SIX_HOURS', 'TWELVE_HOURS', 'ONE_DAY', 'THREE_DAYS', 'ALL'];
+
+export interface LeagueListing {
+  leagues: LeagueData[];
+  usedTimeFilter: string | null;
+  firstAvailableTimeFilter: string | null;
+  pagesFetched: number;
+  complete: boolean;
+}
+
+export type PreGameLeague = Omit<LeagueData, 'events'> & { eventIds: number[] };
+
+export interface PreGameResult {
+  events: EventData[];
+  leagues: PreGameLeague[];
+  markets: Map<number, MarketData[]>;
+  summary: {
+    totalEvents: number;
+    totalLeagues: number;
+    totalMarkets: number;
+    sport: string;
+    time: string;
+    usedTimeFilter: string | null;
+    firstAvailableTimeFilter: string | null;
+    pagesFetched: number;
+    complete: boolean;
+    extractedAt: Date;
+  };
+}
+
+/**
+ * Changes between two pre-game results. Events that left the listing after their start time are
+ * reported as started, the others as removed. Markets are only included for events that were refetched.
+ */
+export interface PreGameDelta {
+  added: number[];
+  updated: number[];
+  removed: number[];
+  started: number[];
+  events: EventData[];
+  markets: Map<number, MarketData[]>;
+  summary: PreGameResult['summary'];
+}
+
 export interface MarketsResponse {
   errorCode: string | null;
   parameters: any;
@@ -66,299 +191,396 @@ export interface MarketsResponse {
 }
 
 export class MeridianbetDataService {
-  private tokenService: MeridianbetTokenService;
-  private readonly BASE_URL = 'https://online.meridianbet.com/betshop/api';
-  private readonly SPORTS_IDS = {
-    football: 58,
-    basketball: 55,
-    tennis: 56
-  };
-  
-  // Rate limiting delays (in milliseconds)
-  private readonly LEAGUE_DELAY = parseInt(process.env.API_LEAGUE_DELAY || '150');
-  private readonly MARKET_DELAY = parseInt(process.env.API_MARKET_DELAY || '200');
-  private readonly RETRY_DELAY = parseInt(process.env.API_RETRY_DELAY || '150');
-  private readonly BATCH_DELAY = parseInt(process.env.API_BATCH_DELAY || '500');
-  private readonly EVENT_DELAY = parseInt(process.env.API_EVENT_DELAY || '50');
-
+  private httpClient: BetshopHttpClient;
+  private nameResolver: SelectionNameResolver;
+  private sportCatalog: SportCatalogService;
+
+  private readonly DEFAULT_TIME_FILTER = 'ONE_DAY';
+  private readonly MAX_LEAGUE_PAGES = parseInt(process.env.API_MAX_LEAGUE_PAGES || '50');
+  private timeFilters: Set<string> = new Set(PRE_GAME_TIME_FILTERS);
+  private verifiedTimeFilters: Set<string> = new Set([this.DEFAULT_TIME_FILTER]);
+
+  constructor(httpClient: BetshopHttpClient, nameResolver: SelectionNameResolver, sportCatalog: SportCatalogService) {
+    this.httpClient = httpClient;
+    this.nameResolver = nameResolver;
+    this.sportCatalog = sportCatalog;
+  }
 
-  constructor(tokenService: MeridianbetTokenService) {
-    this.tokenService = tokenService;
+  public isSupportedTimeFilter(time: string): boolean {
+    return this.timeFilters.has(time);
   }
 
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Known time windows, including any the upstream has reported beyond the built-in list
+   */
+  public getTimeFilters(): string[] {
+    return Array.from(this.timeFilters);
   }
 
+  /**
+   * Time windows the upstream has confirmed, the default and those reported in league listings
+   */
+  public getVerifiedTimeFilters(): string[] {
+    return Array.from(this.verifiedTimeFilters);
+  }
 
-  async getLeagues(sport: 'football' | 'basketball' | 'tennis'): Promise<EventData[]> {
-    const sportId = this.SPORTS_IDS[sport];
-    const allEvents: EventData[] = [];
+  /**
+   * Fetch league listings page by page until the upstream returns a page without leagues.
+   * Region and league metadata are kept on each league and copied into its event headers.
+   * The listing is only complete when the last page was reached and no page failed.
+   */
+  async getLeagues(sport: string, query: PreGameQuery = {}): Promise<LeagueListing> {
+    const sportId = this.sportCatalog.getSportId(sport);
+    const time = query.time || this.DEFAULT_TIME_FILTER;
+    const maxPages = Math.min(query.maxPages || this.MAX_LEAGUE_PAGES, this.MAX_LEAGUE_PAGES);
+    const listing: LeagueListing = {
+      leagues: [],
+      usedTimeFilter: null,
+      firstAvailableTimeFilter: null,
+      pagesFetched: 0,
+      complete: false
+    };
+    let failedPages = 0;
 
-    console.log(`Fetching leagues for ${sport} (ID: ${sportId})`);
+    console.log(`Fetching leagues for ${sport} (ID: ${sportId}, time: ${time})`);
 
-    // Call API 5 times with different pages until we get empty leagues
-    for (let page = 0; page < 5; page++) {
+    for (let page = 0; page < maxPages; page++) {
       try {
-        const tokenData = await this.tokenService.refreshTokenIfNeeded();
-
-        const url = `${this.BASE_URL}/v1/standard/sport/${sportId}/leagues?time=ONE_DAY&page=${page}`;
-
-        console.log(`Fetching page ${page} from: ${url}`);
-        
-        // Add delay to prevent rate limiting
-        await this.delay(this.LEAGUE_DELAY); // Configurable delay between league requests
-        
-        const response = await fetch(url, {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${tokenData.accessToken}`,
-            'Content-Type': 'application/json',
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-            'Accept-Language': 'en'
-          }
-        });
-
-        if (!response.ok) {
-          if (response.status === 401) {
-            console.log('Token expired or invalid, refreshing...');
-            // Token might be invalid, try to refresh
-            const newTokenData = await this.tokenService.refreshTokenIfNeeded();
-
-            // Add delay before retry
-            await this.delay(this.RETRY_DELAY); // Configurable delay before retry
-            
-            // Retry with new token
-            const retryResponse = await fetch(url, {
-              method: 'GET',
-              headers: {
-                'Authorization': `Bearer ${newTokenData.accessToken}`,
-                'Content-Type': 'application/json',
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                'Accept-Language': 'en'
-              }
-            });
-
-            if (!retryResponse.ok) {
-              throw new Error(`HTTP error after token refresh! status: ${retryResponse.status}`);
-            }
-
-            const retryData: LeaguesResponse = await retryResponse.json();
-            this.processLeaguesResponse(retryData, allEvents, page);
-            continue;
-          } else {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-        }
+        const data = await this.fetchLeaguesPage(sportId, time, page);
+        listing.pagesFetched++;
 
-        const data: LeaguesResponse = await response.json();
-        this.processLeaguesResponse(data, allEvents, page);
+        if (page === 0) {
+          listing.usedTimeFilter = this.learnTimeFilter(data.payload.usedTimeFilter);
+          listing.firstAvailableTimeFilter = this.learnTimeFilter(data.payload.firstAvailableTimeFilter);
+        }
 
-        // Small delay between requests to avoid rate limiting
-        await this.delay(this.LEAGUE_DELAY); // Configurable delay between league page requests
+        if (this.processLeaguesResponse(data, listing.leagues, page, query) === 0) {
+          console.log(`No more leagues found on page ${page}, stopping pagination`);
+          listing.complete = true;
+          break;
+        }
 
       } catch (error) {
         console.error(`Error fetching page ${page}:`, error);
+        failedPages++;
         // Continue with next page even if one fails
       }
     }
 
-    console.log(`Total events collected: ${allEvents.length}`);
-    return allEvents;
+    if (failedPages > 0) {
+      console.warn(`${failedPages} ${sport} league pages failed, the listing is incomplete`);
+      listing.complete = false;
+    } else if (!listing.complete) {
+      console.warn(`Stopped fetching ${sport} leagues after ${maxPages} pages, more may be available`);
+    }
+
+    const totalEvents = listing.leagues.reduce((sum, league) => sum + league.events.length, 0);
+    console.log(`Total events collected: ${totalEvents} in ${listing.leagues.length} leagues`);
+    return listing;
   }
 
-  private processLeaguesResponse(data: LeaguesResponse, allEvents: EventData[], page: number): void {
-    if (data.errorCode) {
-      throw new Error(`API error: ${data.errorCode} - ${data.errorMessages?.join(', ')}`);
+  /**
+   * Time filters come back as plain names or as objects carrying the name
+   */
+  private learnTimeFilter(value: unknown): string | null {
+    let name: unknown = value;
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      name = record.name ?? record.value ?? record.type ?? record.timeFilter;
     }
 
-    console.log(`Page ${page}: Found ${data.payload.leagues.length} leagues`);
-
-    // Extract events from all leagues
-    data.payload.leagues.forEach(league => {
-      if (league.events && league.events.length > 0) {
-        allEvents.push(...league.events);
-      }
-    });
+    if (typeof name !== 'string' || !name) {
+      return null;
+    }
 
-    // If no leagues found, break the loop
-    if (data.payload.leagues.length === 0) {
-      console.log(`No more leagues found on page ${page}, stopping pagination`);
+    if (!this.timeFilters.has(name)) {
+      console.log(`Learned new time filter from upstream: ${name}`);
+      this.timeFilters.add(name);
     }
+    this.verifiedTimeFilters.add(name);
+    return name;
   }
 
-  async getEventMarkets(eventId: number): Promise<MarketData[]> {
-    try {
-      const tokenData = await this.tokenService.refreshTokenIfNeeded();
-
-      const url = `${this.BASE_URL}/v2/events/${eventId}/markets?gameGroupId=all`;
-
-      console.log(`Fetching markets for event ${eventId} from URL: ${url}`);
-
-      // Add delay to prevent rate limiting
-      await this.delay(this.MARKET_DELAY); // Configurable delay between market requests
+  private async fetchLeaguesPage(sportId: number, time: string, page: number): Promise<LeaguesResponse> {
+    const path = `/v1/standard/sport/${sportId}/leagues?time=${encodeURIComponent(time)}&page=${page}`;
+    console.log(`Fetching page ${page} from: ${path}`);
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${tokenData.accessToken}`,
-          'Content-Type': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-          'Accept-Language': 'en'
-        }
-      });
+    return this.httpClient.getJson<LeaguesResponse>(path, { payloadType: 'leagues' });
+  }
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          console.log(`Token expired for event ${eventId}, coordinating refresh...`);
-        // Use coordinated token refresh to prevent multiple concurrent refreshes
-        const newTokenData = await this.tokenService.waitForTokenRefresh();
-          
-          console.log(`New token obtained for event ${eventId}: ${newTokenData.accessToken.substring(0, 20)}...`);
-          
-          // Add delay before retry
-          await this.delay(this.RETRY_DELAY); // Configurable delay before retry
-          
-          // Retry with new token
-          const retryResponse = await fetch(url, {
-            method: 'GET',
-            headers: {
-              'Authorization': `Bearer ${newTokenData.accessToken}`,
-              'Content-Type': 'application/json',
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-              'Accept-Language': 'en'
-            }
-          });
-
-          console.log(`Retry response status for event ${eventId}: ${retryResponse.status}`);
-
-          if (!retryResponse.ok) {
-            console.error(`Token refresh failed for event ${eventId}. Status: ${retryResponse.status}`);
-            console.log('This might indicate the refresh token is also expired or invalid');
-            throw new Error(`HTTP error after token refresh! status: ${retryResponse.status}`);
-          }
-
-          const retryData: MarketsResponse = await retryResponse.json();
-
-          if (retryData.errorCode) {
-            throw new Error(`API error: ${retryData.errorCode} - ${retryData.errorMessages?.join(', ')}`);
-          }
-
-          console.log(`Found ${retryData.payload.length} market groups for event ${eventId} (retry)`);
-          return retryData.payload;
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
+  /**
+   * Collect the leagues of one page that match the query. Returns the number of leagues on the page
+   * before filtering, so pagination can stop on an empty page.
+   */
+  private processLeaguesResponse(data: LeaguesResponse, leagues: LeagueData[], page: number, query: PreGameQuery): number {
+    const pageLeagues = data.payload.leagues || [];
+    console.log(`Page ${page}: Found ${pageLeagues.length} leagues`);
+
+    pageLeagues.forEach(league => {
+      if (query.leagueIds?.length && !query.leagueIds.includes(league.leagueId)) {
+        return;
+      }
+      if (query.regionIds?.length && !query.regionIds.includes(league.regionId)) {
+        return;
       }
 
-      const data: MarketsResponse = await response.json();
+      // Keep the league and region each event belongs to
+      (league.events || []).forEach(event => {
+        event.header.region = event.header.region || {
+          regionId: league.regionId,
+          name: league.regionName,
+          slug: league.regionSlug
+        };
+        event.header.league = event.header.league || {
+          leagueId: league.leagueId,
+          name: league.leagueName,
+          slug: league.leagueSlug,
+          favoriteLeague: league.favoriteLeague
+        };
+      });
 
-      if (data.errorCode) {
-        throw new Error(`API error: ${data.errorCode} - ${data.errorMessages?.join(', ')}`);
+      // The same league can continue on the next page
+      const existing = leagues.find(known => known.leagueId === league.leagueId);
+      if (existing) {
+        existing.events.push(...(league.events || []));
+      } else {
+        leagues.push({ ...league, events: league.events || [] });
       }
+    });
 
-      console.log(`Found ${data.payload.length} market groups for event ${eventId}`);
-      return data.payload;
+    return pageLeagues.length;
+  }
 
+  async getEventMarkets(eventId: number): Promise<MarketData[]> {
+    try {
+      return await this.fetchEventMarkets(eventId);
     } catch (error) {
       console.error(`Error fetching markets for event ${eventId}:`, error);
       return [];
     }
   }
 
-  async getAllEventMarkets(eventIds: number[]): Promise<Map<number, MarketData[]>> {
+  /**
+   * Fetch the markets of several events. IDs whose request failed are added to failed if it is given.
+   */
+  async getAllEventMarkets(eventIds: number[], failed?: Set<number>): Promise<Map<number, MarketData[]>> {
     const eventMarkets = new Map<number, MarketData[]>();
 
     console.log(`Fetching markets for ${eventIds.length} events`);
 
-    // Process events in batches to avoid overwhelming the API
-    const batchSize = 5;
-    for (let i = 0; i < eventIds.length; i += batchSize) {
-      const batch = eventIds.slice(i, i + batchSize);
-
-      console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(eventIds.length / batchSize)}`);
-
-      // Process batch concurrently
-      const promises = batch.map(async (eventId, index) => {
-        // Add small delay between events within batch
-        if (index > 0) {
-          await this.delay(this.EVENT_DELAY); // Configurable delay between events in same batch
-        }
-        
-        const markets = await this.getEventMarkets(eventId);
+    // All requests are queued at once, the HTTP client's rate limiter decides how many run
+    await Promise.all(eventIds.map(async eventId => {
+      try {
+        const markets = await this.fetchEventMarkets(eventId);
         if (markets.length > 0) {
           eventMarkets.set(eventId, markets);
         }
-        return { eventId, markets };
-      });
-
-      await Promise.all(promises);
-
-      // Small delay between batches
-      await this.delay(this.BATCH_DELAY); // Configurable delay between batches
-    }
+      } catch (error) {
+        console.error(`Error fetching markets for event ${eventId}:`, error);
+        failed?.add(eventId);
+      }
+    }));
 
     console.log(`Successfully fetched markets for ${eventMarkets.size} events`);
     return eventMarkets;
   }
 
-  async extractPreGameData(sport: 'football' | 'basketball' | 'tennis'): Promise<{
-    events: EventData[];
-    markets: Map<number, MarketData[]>;
-    summary: {
-      totalEvents: number;
-      totalMarkets: number;
-      sport: string;
-      extractedAt: Date;
-    };
-  }> {
-    console.log(`Starting pre-game data extraction for ${sport}`);
+  private async fetchEventMarkets(eventId: number): Promise<MarketData[]> {
+    const path = `/v2/events/${eventId}/markets?gameGroupId=all`;
+    console.log(`Fetching markets for event ${eventId} from: ${path}`);
 
-    // Step 1: Get all events from leagues
-    const events = await this.getLeagues(sport);
+    const data = await this.httpClient.getJson<MarketsResponse>(path, { payloadType: 'markets' });
+    const marketGroups = data.payload || [];
 
-    if (events.length === 0) {
-      console.log(`No events found for ${sport}`);
-      return {
-        events: [],
-        markets: new Map(),
-        summary: {
-          totalEvents: 0,
-          totalMarkets: 0,
-          sport,
-          extractedAt: new Date()
-        }
-      };
-    }
+    console.log(`Found ${marketGroups.length} market groups for event ${eventId}`);
+    this.nameResolver.learn(eventId, marketGroups);
+    return marketGroups;
+  }
+
+  async extractPreGameData(sport: string, query: PreGameQuery = {}): Promise<PreGameResult> {
+    console.log(`Starting pre-game data extraction for ${sport}`);
+
+    // Step 1: Get all leagues with their events
+    const listing = await this.getLeagues(sport, query);
+    const events = listing.leagues.flatMap(league => league.events);
 
     // Step 2: Extract event IDs
     const eventIds = events.map(event => event.header.eventId);
     console.log(`Extracted ${eventIds.length} event IDs`);
-    console.log(`Sample event IDs: ${eventIds.slice(0, 5).join(', ')}`);
 
     // Step 3: Get markets for all events
-    console.log('Starting market extraction...');
-    const markets = await this.getAllEventMarkets(eventIds);
-    console.log(`Market extraction completed. Map size: ${markets.size}`);
+    let markets = new Map<number, MarketData[]>();
+    if (eventIds.length > 0) {
+      console.log(`Sample event IDs: ${eventIds.slice(0, 5).join(', ')}`);
+      console.log('Starting market extraction...');
+      markets = await this.getAllEventMarkets(eventIds);
+      console.log(`Market extraction completed. Map size: ${markets.size}`);
+    } else {
+      console.log(`No events found for ${sport}`);
+    }
 
     // Step 4: Calculate summary
-    const totalMarkets = Array.from(markets.values()).reduce((sum, marketList) => {
-      return sum + marketList.reduce((marketSum, market) => marketSum + market.markets.length, 0);
-    }, 0);
+    const result = this.buildPreGameResult(sport, query, listing, markets);
+    console.log(`Pre-game data extraction completed:`, result.summary);
+    return result;
+  }
+
+  /**
+   * Refresh a previous result: fetch the league listing again, but only refetch markets for new events
+   * and events whose summary odds in the listing changed. Returns the new full result and the delta.
+   * Events whose markets could not be fetched keep their previous state so the next refresh retries
+   * them, and an incomplete listing keeps the events it did not return instead of reporting them gone.
+   */
+  async refreshPreGameData(sport: string, query: PreGameQuery, previous: PreGameResult): Promise<{ result: PreGameResult; delta: PreGameDelta }> {
+    console.log(`Starting incremental pre-game refresh for ${sport}`);
+
+    const listing = await this.getLeagues(sport, query);
+    const events = listing.leagues.flatMap(league => league.events);
+    const previousEvents = new Map(previous.events.map(event => [event.header.eventId, event]));
+    const currentIds = new Set(events.map(event => event.header.eventId));
+    const now = Date.now();
+
+    const added: number[] = [];
+    const changed: number[] = [];
+    const headerOnly: number[] = [];
+
+    for (const event of events) {
+      const eventId = event.header.eventId;
+      const before = previousEvents.get(eventId);
+
+      if (!before) {
+        added.push(eventId);
+      } else if (this.getOddsFingerprint(before) !== this.getOddsFingerprint(event)) {
+        changed.push(eventId);
+      } else if (before.header.startTime !== event.header.startTime || before.header.state !== event.header.state) {
+        headerOnly.push(eventId);
+      }
+    }
+
+    // Events that left the listing either kicked off or were withdrawn. A listing with failed pages
+    // cannot tell, its missing events are carried over unchanged.
+    const started: number[] = [];
+    const removed: number[] = [];
+    const carried: EventData[] = [];
+    for (const [eventId, event] of previousEvents) {
+      if (currentIds.has(eventId)) {
+        continue;
+      }
+      if (!listing.complete) {
+        carried.push(event);
+      } else if (event.header.startTime && event.header.startTime <= now) {
+        started.push(eventId);
+      } else {
+        removed.push(eventId);
+      }
+    }
+
+    console.log(`Refresh diff: ${added.length} new, ${changed.length} odds changed, ${headerOnly.length} rescheduled, ${started.length} started, ${removed.length} removed, ${carried.length} kept from an incomplete listing`);
+
+    const failed = new Set<number>();
+    const refetched = await this.getAllEventMarkets([...added, ...changed], failed);
+
+    // A failed new event is left out and a failed changed one keeps its previous listing entry,
+    // so both show up as new or changed again on the next refresh
+    for (const league of listing.leagues) {
+      league.events = league.events
+        .filter(event => !(failed.has(event.header.eventId) && !previousEvents.has(event.header.eventId)))
+        .map(event => failed.has(event.header.eventId) ? previousEvents.get(event.header.eventId)! : event);
+    }
+    this.addCarriedEvents(listing, carried, previous.leagues);
+
+    const markets = new Map<number, MarketData[]>();
+    for (const league of listing.leagues) {
+      for (const event of league.events) {
+        const eventId = event.header.eventId;
+        const eventMarkets = refetched.get(eventId) ?? previous.markets.get(eventId);
+        if (eventMarkets) {
+          markets.set(eventId, eventMarkets);
+        }
+      }
+    }
 
-    const summary = {
-      totalEvents: events.length,
-      totalMarkets,
-      sport,
-      extractedAt: new Date()
+    const result = this.buildPreGameResult(sport, query, listing, markets);
+    const isDelivered = (eventId: number) => !failed.has(eventId);
+    const updated = [...changed, ...headerOnly].filter(isDelivered);
+    const updatedIds = new Set([...added.filter(isDelivered), ...updated]);
+
+    if (failed.size > 0) {
+      console.warn(`Markets of ${failed.size} events could not be fetched, they are retried on the next refresh`);
+    }
+
+    const delta: PreGameDelta = {
+      added: added.filter(isDelivered),
+      updated,
+      removed,
+      started,
+      events: events.filter(event => updatedIds.has(event.header.eventId)),
+      markets: refetched,
+      summary: result.summary
     };
 
-    console.log(`Pre-game data extraction completed:`, summary);
+    console.log(`Incremental pre-game refresh completed, refetched markets for ${refetched.size} events`);
+    return { result, delta };
+  }
+
+  /**
+   * Put events of the previous result back into the leagues they were listed in
+   */
+  private addCarriedEvents(listing: LeagueListing, carried: EventData[], previousLeagues: PreGameLeague[]): void {
+    for (const event of carried) {
+      const previousLeague = previousLeagues.find(league => league.eventIds.includes(event.header.eventId));
+      if (!previousLeague) {
+        continue;
+      }
+
+      const league = listing.leagues.find(known => known.leagueId === previousLeague.leagueId);
+      if (league) {
+        league.events.push(event);
+      } else {
+        const { eventIds, ...leagueData } = previousLeague;
+        listing.leagues.push({ ...leagueData, events: [event] });
+      }
+    }
+  }
+
+  /**
+   * Prices and states of the summary odds shown in the league listing
+   */
+  private getOddsFingerprint(event: EventData): string {
+    return (event.positions || [])
+      .flatMap(position => position.groups || [])
+      .flatMap(group => group.selections || [])
+      .map(selection => `${selection.selectionId}:${selection.price}:${selection.state}`)
+      .join('|');
+  }
+
+  private buildPreGameResult(sport: string, query: PreGameQuery, listing: LeagueListing, markets: Map<number, MarketData[]>): PreGameResult {
+    const events = listing.leagues.flatMap(league => league.events);
+    const leagues: PreGameLeague[] = listing.leagues.map(({ events: leagueEvents, ...league }) => ({
+      ...league,
+      eventIds: leagueEvents.map(event => event.header.eventId)
+    }));
+
+    const totalMarkets = Array.from(markets.values()).reduce((sum, marketList) => {
+      return sum + marketList.reduce((marketSum, market) => marketSum + market.markets.length, 0);
+    }, 0);
 
     return {
       events,
+      leagues,
       markets,
-      summary
+      summary: {
+        totalEvents: events.length,
+        totalLeagues: leagues.length,
+        totalMarkets,
+        sport,
+        time: query.time || this.DEFAULT_TIME_FILTER,
+        usedTimeFilter: listing.usedTimeFilter,
+        firstAvailableTimeFilter: listing.firstAvailableTimeFilter,
+        pagesFetched: listing.pagesFetched,
+        complete: listing.complete,
+        extractedAt: new Date()
+      }
     };
   }
 }
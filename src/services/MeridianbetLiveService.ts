@@ -1,6 +1,10 @@
-import WebSocket from 'ws';
 import { MeridianbetTokenService } from './MeridianbetTokenService';
-import { EventData, MarketData, Market, Selection as MarketSelection } from './MeridianbetDataService';
+import { UpstreamValidator } from './UpstreamValidator';
+import { BetshopHttpClient } from './BetshopHttpClient';
+import { SelectionNameResolver } from './SelectionNameResolver';
+import { SocketIoClient, SocketIoConnectError, DisconnectReason } from './SocketIoClient';
+import { parseMatchPhase } from './LiveMatchStateService';
+import { EventData, MarketData, Market, Selection as MarketSelection, RawOfferPosition } from './MeridianbetDataService';
 
 export interface LiveEventUpdate {
   header: EventData['header'];
@@ -49,37 +53,112 @@ export interface LiveOfferUpdate {
     numberOfVisibleSelections: number;
     hasEarlyPayout: boolean;
   };
-  positions: Array<{
-    index: number;
-    groups: Array<{
-      selections?: Array<{
-        selectionId: string;
-        state: string;
-        price: number;
-        marketId: number;
-        gameTemplateId: number;
-        placeholder: boolean;
-      }>;
-      overUnder?: number;
-      name?: string;
-      containsTemplateWithVariableMarketName: boolean;
-      earlyPayoutMarket: boolean;
-    }>;
-  }>;
+  positions: RawOfferPosition[];
 }
 
+/**
+ * Events whose header or markets changed, and events that left the live offer, since the previous update
+ */
+export interface LiveDataUpdate {
+  events: LiveEventUpdate[];
+  markets: Record<number, MarketData[]>;
+  removedEventIds: number[];
+  lastUpdate: string;
+}
+
+export type LiveEventEndReason = 'finished' | 'cancelled' | 'removed';
+
+/**
+ * Final state of an event that left live tracking
+ */
+export interface ArchivedLiveEvent {
+  header: EventData['header'];
+  markets: MarketData[];
+  reason: LiveEventEndReason;  // 'removed' means it left the live events listing without a final state
+  archivedAt: string;
+}
+
+export type LiveConnectionState = 'connected' | 'reconnecting' | 'degraded' | 'failed';
+
+/**
+ * State of the live WebSocket. 'degraded' means the socket is back but the state resync has not succeeded yet.
+ */
+export interface LiveConnectionStatus {
+  state: LiveConnectionState;
+  attempt: number;               // Reconnect attempts since the connection was lost
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  reason: string | null;         // Why the connection was lost or the last attempt failed
+  at: string;
+}
+
+/**
+ * Socket.IO events the live feed sends; payloads are JSON documents encoded as strings
+ */
+type LiveServerEvents = {
+  'subscriptions': (payload: string) => void;
+  'single-event-update': (payload: string) => void;
+  'offer-feed-update-live': (payload: string) => void;
+};
+
+export type OddsChange =
+  | {
+    type: 'selection-price';
+    eventId: number;
+    gameTemplateId: number;
+    marketId: number;
+    selectionId: string;
+    selectionName: string;
+    oldPrice: number;
+    newPrice: number;
+    oldState: string;
+    newState: string;
+    at: Date;
+  }
+  | {
+    type: 'market-state';
+    eventId: number;
+    gameTemplateId: number;
+    marketId: number;
+    marketName: string;
+    oldState: string;
+    newState: string;
+    at: Date;
+  }
+  | {
+    type: 'market-added';
+    eventId: number;
+    gameTemplateId: number;
+    marketId: number | null;
+    marketName: string;
+    at: Date;
+  };
+
 export class MeridianbetLiveService {
-  private ws: WebSocket | null = null;
-  private pingInterval: number = 25000; // Default ping interval
-  private pingTimer: NodeJS.Timeout | null = null;
+  private socket: SocketIoClient<LiveServerEvents> | null = null;
   private reconnectTimer: NodeJS.Timeout | null = null;
-  private isConnected: boolean = false;
-  private isHandshakeComplete: boolean = false;
-  private sessionId: string | null = null;
+  private reconnectAttempt = 0;
+  private tokenRejected = false;
+  private connectionStatus: LiveConnectionStatus | null = null;
   private subscribedEvents: Set<number> = new Set();
-  private currentSportId: number | null = null;
-  private onDataCallback: ((data: any) => void) | null = null;
+  private activeSportIds: Set<number> = new Set();
+  // Events followed one by one, e.g. pre-game events handed over at their start time; their sport need not be active
+  private trackedEvents: Map<number, { sportId: number; header: EventData['header']; trackedSince: number }> = new Map();
+  private eventSportIds: Map<number, number> = new Map();
+  private connectPromise: Promise<void> | null = null;
+  private discoveryTimer: NodeJS.Timeout | null = null;
+  private hydratingEvents: Set<number> = new Set();
+  private archivedEvents: Map<number, ArchivedLiveEvent> = new Map();
+  private onDataCallback: ((data: LiveDataUpdate) => void) | null = null;
   private onErrorCallback: ((error: Error) => void) | null = null;
+  private onChangesCallback: ((changes: OddsChange[]) => void) | null = null;
+  private onConnectionStateCallback: ((status: LiveConnectionStatus) => void) | null = null;
+  private onExtractionFailedCallback: ((error: Error) => void) | null = null;
+
+  // Changes detected since the last broadcast
+  private pendingChanges: OddsChange[] = [];
+  private changedEventIds: Set<number> = new Set();
+  private removedEventIds: Set<number> = new Set();
 
   // Live data storage
   private liveEvents: Map<number, LiveEventUpdate> = new Map();
@@ -87,20 +166,25 @@ export class MeridianbetLiveService {
   private lastUpdateTime: Date = new Date();
 
   // Configuration from environment variables
-  private readonly WEBSOCKET_URL = 'wss://online-ws.meridianbet.com/betshop-online/';
-  private readonly LIVE_EVENTS_DELAY = parseInt(process.env.API_LIVE_EVENTS_DELAY || '1000');
-  private readonly LIVE_MARKETS_DELAY = parseInt(process.env.API_LIVE_MARKETS_DELAY || '500');
+  private readonly WEBSOCKET_URL = process.env.WEBSOCKET_URL || 'wss://online-ws.meridianbet.com/betshop-online/';
   private readonly RECONNECT_DELAY = parseInt(process.env.WEBSOCKET_RECONNECT_DELAY || '5000');
+  private readonly RECONNECT_MAX_DELAY = parseInt(process.env.WEBSOCKET_RECONNECT_MAX_DELAY || '60000');
   private readonly MAX_RECONNECT_ATTEMPTS = parseInt(process.env.WEBSOCKET_MAX_RECONNECT_ATTEMPTS || '5');
+  private readonly DISCOVERY_INTERVAL = parseInt(process.env.LIVE_DISCOVERY_INTERVAL || '60000');
+  private readonly ARCHIVE_SIZE = parseInt(process.env.LIVE_ARCHIVE_SIZE || '500');
+  private readonly HANDOVER_GRACE_PERIOD = parseInt(process.env.LIVE_HANDOVER_GRACE_PERIOD || '900000');
 
   constructor(
-    private tokenService: MeridianbetTokenService
+    private tokenService: MeridianbetTokenService,
+    private httpClient: BetshopHttpClient,
+    private validator: UpstreamValidator,
+    private nameResolver: SelectionNameResolver
   ) { }
 
   /**
-   * Set callback for live data updates
+   * Set callback for live data updates; each update only carries the events changed since the previous one
    */
-  public setDataCallback(callback: (data: any) => void): void {
+  public setDataCallback(callback: (data: LiveDataUpdate) => void): void {
     this.onDataCallback = callback;
   }
 
@@ -112,124 +196,235 @@ export class MeridianbetLiveService {
   }
 
   /**
-   * Get current live data
+   * Set callback for detected price, market state and new market changes
    */
-  public getCurrentLiveData(): { events: LiveEventUpdate[], markets: Map<number, MarketData[]>, lastUpdate: Date } {
+  public setChangesCallback(callback: (changes: OddsChange[]) => void): void {
+    this.onChangesCallback = callback;
+  }
+
+  /**
+   * Set callback for live WebSocket connection state changes
+   */
+  public setConnectionStateCallback(callback: (status: LiveConnectionStatus) => void): void {
+    this.onConnectionStateCallback = callback;
+  }
+
+  /**
+   * Set callback for live extraction stopped because the WebSocket could not be reconnected
+   */
+  public setExtractionFailedCallback(callback: (error: Error) => void): void {
+    this.onExtractionFailedCallback = callback;
+  }
+
+  /**
+   * Current live WebSocket connection state, or null before the first connection
+   */
+  public getConnectionStatus(): LiveConnectionStatus | null {
+    return this.connectionStatus;
+  }
+
+  /**
+   * Events that left live tracking, most recent first, optionally for one sport
+   */
+  public getArchivedEvents(sportId?: number): ArchivedLiveEvent[] {
+    return Array.from(this.archivedEvents.values())
+      .filter(event => sportId === undefined || event.header.sport?.sportId === sportId)
+      .reverse();
+  }
+
+  public getArchivedEvent(eventId: number): ArchivedLiveEvent | null {
+    return this.archivedEvents.get(eventId) || null;
+  }
+
+  /**
+   * Get current live data, optionally limited to one sport
+   */
+  public getCurrentLiveData(sportId?: number): { events: LiveEventUpdate[], markets: Map<number, MarketData[]>, lastUpdate: Date } {
+    const includes = (eventId: number) => sportId === undefined || this.eventSportIds.get(eventId) === sportId;
+
     return {
-      events: Array.from(this.liveEvents.values()),
-      markets: new Map(this.liveMarkets),
+      events: Array.from(this.liveEvents.values()).filter(event => includes(event.header.eventId)),
+      markets: new Map(Array.from(this.liveMarkets).filter(([eventId]) => includes(eventId))),
       lastUpdate: this.lastUpdateTime
     };
   }
 
   /**
-   * Start live data extraction for a specific sport
+   * Sports currently subscribed for live updates
+   */
+  public getActiveSportIds(): number[] {
+    return Array.from(this.activeSportIds);
+  }
+
+  /**
+   * Start live data extraction for a specific sport.
+   * Several sports can be active at once over the same WebSocket connection.
    */
   public async startLiveExtraction(sportId: number): Promise<void> {
     console.log(`Starting live extraction for sport ${sportId}`);
-    this.currentSportId = sportId;
 
-    try {
-      // Step 1: Connect to WebSocket first
-      await this.connectWebSocket();
+    if (this.activeSportIds.has(sportId)) {
+      console.log(`Live extraction for sport ${sportId} is already active`);
+      return;
+    }
+    this.activeSportIds.add(sportId);
 
-      // Step 2: Wait for handshake to complete
-      await this.waitForHandshake();
+    try {
+      // Step 1: Connect to WebSocket and wait for the handshake, unless another sport already did
+      await this.ensureConnected();
 
-      // Step 3: Get initial live events
+      // Step 2: Get initial live events
       const events = await this.getInitialLiveEvents(sportId);
       console.log(`Found ${events.length} live events`);
 
-      // Step 4: Get initial odds data for all events
+      // Step 3: Get initial odds data for all events
       const markets = await this.getInitialLiveMarkets(events);
       console.log(`Got initial markets for ${markets.size} events`);
 
-      // Step 5: Store initial data
-      this.storeInitialData(events, markets);
+      // Step 4: Store initial data
+      this.storeInitialData(sportId, events, markets);
 
-      // Step 6: Subscribe to live updates
+      // Step 5: Subscribe to live updates
       await this.subscribeToLiveUpdates(sportId, events);
 
-      console.log('Live extraction started successfully');
+      // Step 6: Periodically pick up started events and retire finished ones
+      this.startDiscovery();
+
+      console.log(`Live extraction started successfully for sport ${sportId}`);
 
     } catch (error) {
       console.error('Failed to start live extraction:', error);
-      if (this.onErrorCallback) {
-        this.onErrorCallback(error instanceof Error ? error : new Error('Unknown error'));
-      }
+      this.activeSportIds.delete(sportId);
+      throw error;
     }
   }
 
   /**
-   * Wait for WebSocket handshake to complete
+   * Follow a single event live without starting extraction for its whole sport, e.g. a pre-game
+   * event that reached its start time. The event is hydrated with its full markets and subscribed.
    */
-  private async waitForHandshake(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Handshake timeout'));
-      }, 10000);
-
-      const checkHandshake = () => {
-        if (this.isHandshakeComplete) {
-          clearTimeout(timeout);
-          resolve();
-        } else {
-          setTimeout(checkHandshake, 100);
-        }
-      };
+  public async trackEvent(sportId: number, header: EventData['header']): Promise<void> {
+    const eventId = header.eventId;
+    if (this.subscribedEvents.has(eventId) || this.trackedEvents.has(eventId)) {
+      return;
+    }
 
-      checkHandshake();
-    });
+    console.log(`Tracking live event ${eventId} of sport ${sportId}`);
+    this.trackedEvents.set(eventId, { sportId, header, trackedSince: Date.now() });
+
+    try {
+      await this.ensureConnected();
+      await this.hydrateEvents(sportId, [{ header }]);
+      this.startDiscovery();
+    } catch (error) {
+      this.trackedEvents.delete(eventId);
+      throw error;
+    }
   }
 
   /**
-   * Stop live data extraction
+   * Whether any sport or single event is followed, i.e. the connection is still needed
    */
-  public stopLiveExtraction(): void {
-    console.log('Stopping live extraction');
+  private isTracking(): boolean {
+    return this.activeSportIds.size > 0 || this.trackedEvents.size > 0;
+  }
 
-    this.disconnectWebSocket();
-    this.subscribedEvents.clear();
-    this.currentSportId = null;
+  /**
+   * Connect and complete the handshake once, sharing the attempt between concurrent callers
+   */
+  private async ensureConnected(): Promise<void> {
+    if (this.socket?.isConnected()) {
+      return;
+    }
+
+    if (!this.connectPromise) {
+      this.connectPromise = this.connectWebSocket().finally(() => {
+        this.connectPromise = null;
+      });
+    }
+
+    await this.connectPromise;
+
+    // A reconnect reports the connection itself, once the state is resynced
+    if (this.reconnectAttempt === 0 && this.connectionStatus?.state !== 'connected') {
+      this.setConnectionState('connected', null);
+    }
   }
 
   /**
-   * Get initial live events from API
+   * Stop live data extraction for one sport, or for all sports when no sport is given.
+   * The WebSocket is closed once no sport remains active.
    */
-  private async getInitialLiveEvents(sportId: number): Promise<EventData[]> {
-    const tokenData = this.tokenService.getCurrentToken();
-    if (!tokenData) {
-      throw new Error('No valid token available for live events API');
+  public stopLiveExtraction(sportId?: number): void {
+    if (sportId === undefined) {
+      console.log('Stopping live extraction for all sports');
+      this.stopDiscovery();
+      this.disconnectWebSocket();
+      this.subscribedEvents.clear();
+      this.activeSportIds.clear();
+      this.trackedEvents.clear();
+      this.eventSportIds.clear();
+      return;
     }
 
-    const url = `https://online.meridianbet.com/betshop/api/v2/live/sport/events?sorting=TOP_LEAGUES&sportId=${sportId}`;
+    console.log(`Stopping live extraction for sport ${sportId}`);
+    this.activeSportIds.delete(sportId);
 
-    console.log(`Fetching live events from: ${url}`);
+    if (!this.isTracking()) {
+      this.stopLiveExtraction();
+      this.removeAllLiveEvents();
+      return;
+    }
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${tokenData.accessToken}`,
-        'Content-Type': 'application/json',
-        'Accept-Language': 'en'
-      }
-    });
+    this.sendMessage('subscriptions', JSON.stringify({
+      subscriptionType: 'OFFER_UPDATE_LIVE_SPORT',
+      action: 'UNSUBSCRIBE',
+      sportId: sportId
+    }));
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        console.log('Token expired for live events API, refreshing...');
-        await this.tokenService.waitForTokenRefresh();
-        return this.getInitialLiveEvents(sportId); // Retry with new token
+    for (const [eventId, eventSportId] of this.eventSportIds) {
+      // Events followed one by one stay subscribed
+      if (eventSportId !== sportId || this.trackedEvents.has(eventId)) {
+        continue;
       }
-      throw new Error(`Failed to fetch live events: ${response.status} ${response.statusText}`);
-    }
 
-    const data = await response.json();
+      this.sendMessage('subscriptions', JSON.stringify({
+        subscriptionType: 'SINGLE_EVENT_UPDATE_V2',
+        action: 'UNSUBSCRIBE',
+        eventId: eventId
+      }));
 
-    if (data.errorCode !== null) {
-      throw new Error(`API error: ${data.errorMessages?.join(', ') || 'Unknown error'}`);
+      this.subscribedEvents.delete(eventId);
+      this.eventSportIds.delete(eventId);
+      this.liveEvents.delete(eventId);
+      this.liveMarkets.delete(eventId);
+      this.markRemoved(eventId);
     }
 
+    this.lastUpdateTime = new Date();
+    this.broadcastLiveData();
+  }
+
+  /**
+   * Drop every live event and broadcast their removal
+   */
+  private removeAllLiveEvents(): void {
+    this.liveEvents.forEach((event, eventId) => this.markRemoved(eventId));
+    this.liveEvents.clear();
+    this.liveMarkets.clear();
+    this.lastUpdateTime = new Date();
+    this.broadcastLiveData();
+  }
+
+  /**
+   * Get initial live events from API
+   */
+  private async getInitialLiveEvents(sportId: number): Promise<EventData[]> {
+    const path = `/v2/live/sport/events?sorting=TOP_LEAGUES&sportId=${sportId}`;
+    console.log(`Fetching live events from: ${path}`);
+
+    const data = await this.httpClient.getJson<{ payload: { events: EventData[] } | null }>(path, { payloadType: 'live-events' });
+
     const events: EventData[] = data.payload?.events || [];
     console.log(`Retrieved ${events.length} live events for sport ${sportId}`);
 
@@ -237,67 +432,27 @@ export class MeridianbetLiveService {
   }
 
   /**
-   * Get initial markets data for live events using batch calls
+   * Get initial markets data for live events; the HTTP client's rate limiter paces the requests
    */
   private async getInitialLiveMarkets(events: EventData[]): Promise<Map<number, MarketData[]>> {
     const markets = new Map<number, MarketData[]>();
-    
+
     if (events.length === 0) {
       return markets;
     }
 
-    console.log(`Fetching markets for ${events.length} events using batch calls`);
+    console.log(`Fetching markets for ${events.length} live events`);
 
-    // Process events in batches of 5
-    const batchSize = 5;
-    const batches = [];
-    
-    for (let i = 0; i < events.length; i += batchSize) {
-      batches.push(events.slice(i, i + batchSize));
-    }
-
-    // Process each batch
-    for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-      const batch = batches[batchIndex];
-      console.log(`Processing batch ${batchIndex + 1}/${batches.length} with ${batch.length} events`);
-
-      // Create concurrent promises for this batch
-      const batchPromises = batch.map(async (event, eventIndex) => {
-        try {
-          // Stagger calls within batch
-          await this.delay(eventIndex * 100);
-          
-          const eventMarkets = await this.getEventMarkets(event.header.eventId);
-          console.log(`Batch ${batchIndex + 1}: Got ${eventMarkets.length} market groups for event ${event.header.eventId}`);
-          
-          return {
-            eventId: event.header.eventId,
-            markets: eventMarkets
-          };
-        } catch (error) {
-          console.error(`Batch ${batchIndex + 1}: Failed to get markets for event ${event.header.eventId}:`, error);
-          return {
-            eventId: event.header.eventId,
-            markets: []
-          };
-        }
-      });
-
-      // Wait for all events in this batch to complete
-      const batchResults = await Promise.all(batchPromises);
-      
-      // Store results
-      batchResults.forEach(result => {
-        if (result.markets.length > 0) {
-          markets.set(result.eventId, result.markets);
+    await Promise.all(events.map(async event => {
+      try {
+        const eventMarkets = await this.getEventMarkets(event.header.eventId);
+        if (eventMarkets.length > 0) {
+          markets.set(event.header.eventId, eventMarkets);
         }
-      });
-
-      // Delay between batches to avoid rate limiting
-      if (batchIndex < batches.length - 1) {
-        await this.delay(this.LIVE_MARKETS_DELAY);
+      } catch (error) {
+        console.error(`Failed to get markets for event ${event.header.eventId}:`, error);
       }
-    }
+    }));
 
     console.log(`Completed fetching markets for ${events.length} events. Got markets for ${markets.size} events.`);
     return markets;
@@ -306,10 +461,16 @@ export class MeridianbetLiveService {
   /**
    * Store initial data and broadcast to frontend
    */
-  private storeInitialData(events: EventData[], markets: Map<number, MarketData[]>): void {
-    // Clear existing data
-    this.liveEvents.clear();
-    this.liveMarkets.clear();
+  private storeInitialData(sportId: number, events: EventData[], markets: Map<number, MarketData[]>): void {
+    // Clear existing data for this sport only, other sports and events followed one by one keep streaming
+    for (const [eventId, eventSportId] of this.eventSportIds) {
+      if (eventSportId === sportId && !this.trackedEvents.has(eventId)) {
+        this.liveEvents.delete(eventId);
+        this.liveMarkets.delete(eventId);
+        this.eventSportIds.delete(eventId);
+        this.markRemoved(eventId);
+      }
+    }
 
     // Store events
     for (const event of events) {
@@ -317,6 +478,8 @@ export class MeridianbetLiveService {
         header: event.header,
         games: markets.get(event.header.eventId) || []
       });
+      this.eventSportIds.set(event.header.eventId, sportId);
+      this.markChanged(event.header.eventId);
     }
 
     // Store markets
@@ -332,22 +495,42 @@ export class MeridianbetLiveService {
   }
 
   /**
-   * Broadcast current live data to frontend
+   * Broadcast the events changed since the last broadcast to frontend
    */
   private broadcastLiveData(): void {
-    if (this.onDataCallback) {
-      const liveData = {
-        type: 'live_data',
-        events: Array.from(this.liveEvents.values()),
-        markets: Object.fromEntries(this.liveMarkets),
-        lastUpdate: this.lastUpdateTime.toISOString(),
-        mode: 'live'
-      };
-      
-      this.onDataCallback(liveData);
+    if (this.pendingChanges.length > 0) {
+      const changes = this.pendingChanges;
+      this.pendingChanges = [];
+      if (this.onChangesCallback) {
+        this.onChangesCallback(changes);
+      }
+    }
+
+    const changedEventIds = Array.from(this.changedEventIds).filter(eventId => this.liveEvents.has(eventId));
+    const removedEventIds = Array.from(this.removedEventIds);
+    this.changedEventIds.clear();
+    this.removedEventIds.clear();
+
+    if (this.onDataCallback && (changedEventIds.length > 0 || removedEventIds.length > 0)) {
+      this.onDataCallback({
+        events: changedEventIds.map(eventId => this.liveEvents.get(eventId)!),
+        markets: Object.fromEntries(changedEventIds.map(eventId => [eventId, this.liveMarkets.get(eventId) || []])),
+        removedEventIds,
+        lastUpdate: this.lastUpdateTime.toISOString()
+      });
     }
   }
 
+  private markChanged(eventId: number): void {
+    this.changedEventIds.add(eventId);
+    this.removedEventIds.delete(eventId);
+  }
+
+  private markRemoved(eventId: number): void {
+    this.removedEventIds.add(eventId);
+    this.changedEventIds.delete(eventId);
+  }
+
   /**
    * Merge event data with existing data
    */
@@ -372,13 +555,16 @@ export class MeridianbetLiveService {
         
         if (existingGameIndex >= 0) {
           // Update existing game
+          const existingGame = mergedGames[existingGameIndex];
           mergedGames[existingGameIndex] = {
-            ...mergedGames[existingGameIndex],
-            ...newGame
+            ...existingGame,
+            ...newGame,
+            markets: this.mergeMarkets(eventId, newGame.gameTemplateId, existingGame.markets, newGame.markets)
           };
         } else {
           // Add new game
           mergedGames.push(newGame);
+          this.recordMarketAdded(eventId, newGame);
         }
       });
       
@@ -415,12 +601,13 @@ export class MeridianbetLiveService {
         const mergedMarket: MarketData = {
           ...existingMarket,
           ...newMarket,
-          markets: this.mergeMarkets(existingMarket.markets, newMarket.markets)
+          markets: this.mergeMarkets(eventId, newMarket.gameTemplateId, existingMarket.markets, newMarket.markets)
         };
         mergedMarkets.push(mergedMarket);
       } else {
         // Add new market
         mergedMarkets.push(newMarket);
+        this.recordMarketAdded(eventId, newMarket);
       }
     });
     
@@ -437,7 +624,7 @@ export class MeridianbetLiveService {
   /**
    * Merge individual markets within a market group
    */
-  private mergeMarkets(existingMarkets: Market[], newMarkets: Market[]): Market[] {
+  private mergeMarkets(eventId: number, gameTemplateId: number, existingMarkets: Market[], newMarkets: Market[]): Market[] {
     const mergedMarkets: Market[] = [];
     const existingMarketsMap = new Map();
     
@@ -453,12 +640,33 @@ export class MeridianbetLiveService {
         const mergedMarket: Market = {
           ...existingMarket,
           ...newMarket,
-          selections: this.mergeSelections(existingMarket.selections, newMarket.selections)
+          selections: this.mergeSelections(eventId, gameTemplateId, newMarket.marketId, existingMarket.selections, newMarket.selections)
         };
         mergedMarkets.push(mergedMarket);
+
+        if (existingMarket.state !== mergedMarket.state) {
+          this.pendingChanges.push({
+            type: 'market-state',
+            eventId,
+            gameTemplateId,
+            marketId: mergedMarket.marketId,
+            marketName: mergedMarket.name,
+            oldState: existingMarket.state,
+            newState: mergedMarket.state,
+            at: new Date()
+          });
+        }
       } else {
         // Add new market
         mergedMarkets.push(newMarket);
+        this.pendingChanges.push({
+          type: 'market-added',
+          eventId,
+          gameTemplateId,
+          marketId: newMarket.marketId,
+          marketName: newMarket.name,
+          at: new Date()
+        });
       }
     });
     
@@ -475,7 +683,13 @@ export class MeridianbetLiveService {
   /**
    * Merge selections within a market
    */
-  private mergeSelections(existingSelections: MarketSelection[], newSelections: MarketSelection[]): MarketSelection[] {
+  private mergeSelections(
+    eventId: number,
+    gameTemplateId: number,
+    marketId: number,
+    existingSelections: MarketSelection[],
+    newSelections: MarketSelection[]
+  ): MarketSelection[] {
     const mergedSelections: MarketSelection[] = [];
     const existingSelectionsMap = new Map();
     
@@ -488,10 +702,12 @@ export class MeridianbetLiveService {
       
       if (existingSelection) {
         // Merge existing selection with new data
-        mergedSelections.push({
+        const mergedSelection = {
           ...existingSelection,
           ...newSelection
-        });
+        };
+        mergedSelections.push(mergedSelection);
+        this.recordSelectionChange(eventId, gameTemplateId, marketId, existingSelection, mergedSelection);
       } else {
         // Add new selection
         mergedSelections.push(newSelection);
@@ -509,45 +725,63 @@ export class MeridianbetLiveService {
   }
 
   /**
-   * Get markets for a specific event
+   * Record a selection price or state change for the changes callback
    */
-  private async getEventMarkets(eventId: number): Promise<MarketData[]> {
-    const tokenData = this.tokenService.getCurrentToken();
-    if (!tokenData) {
-      throw new Error('No valid token available for markets API');
+  private recordSelectionChange(
+    eventId: number,
+    gameTemplateId: number,
+    marketId: number,
+    previous: MarketSelection,
+    current: MarketSelection
+  ): void {
+    if (previous.price === current.price && previous.state === current.state) {
+      return;
     }
 
-    const url = `https://online.meridianbet.com/betshop/api/v2/events/${eventId}/markets?gameGroupId=all`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${tokenData.accessToken}`,
-        'Content-Type': 'application/json',
-        'Accept-Language': 'en'
-      }
+    this.pendingChanges.push({
+      type: 'selection-price',
+      eventId,
+      gameTemplateId,
+      marketId,
+      selectionId: current.selectionId,
+      selectionName: current.name,
+      oldPrice: previous.price,
+      newPrice: current.price,
+      oldState: previous.state,
+      newState: current.state,
+      at: new Date()
     });
+  }
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        console.log('Token expired for markets API, refreshing...');
-        await this.tokenService.waitForTokenRefresh();
-        return this.getEventMarkets(eventId); // Retry with new token
-      }
-      throw new Error(`Failed to fetch markets for event ${eventId}: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
+  /**
+   * Record a market group that appeared for an already known event
+   */
+  private recordMarketAdded(eventId: number, marketData: MarketData): void {
+    this.pendingChanges.push({
+      type: 'market-added',
+      eventId,
+      gameTemplateId: marketData.gameTemplateId,
+      marketId: marketData.markets?.[0]?.marketId ?? null,
+      marketName: marketData.marketName,
+      at: new Date()
+    });
+  }
 
-    if (data.errorCode !== null) {
-      throw new Error(`API error for event ${eventId}: ${data.errorMessages?.join(', ') || 'Unknown error'}`);
-    }
+  /**
+   * Get markets for a specific event
+   */
+  private async getEventMarkets(eventId: number): Promise<MarketData[]> {
+    const data = await this.httpClient.getJson<{ payload: MarketData[] | null }>(
+      `/v2/events/${eventId}/markets?gameGroupId=all`,
+      { payloadType: 'markets' }
+    );
 
+    this.nameResolver.learn(eventId, data.payload || []);
     return data.payload || [];
   }
 
   /**
-   * Connect to WebSocket
+   * Connect to WebSocket and complete the Socket.IO handshake
    */
   private async connectWebSocket(): Promise<void> {
     const tokenData = this.tokenService.getCurrentToken();
@@ -555,130 +789,60 @@ export class MeridianbetLiveService {
       throw new Error('No valid token available for WebSocket connection');
     }
 
-    const wsUrl = `${this.WEBSOCKET_URL}?access_token=${tokenData.accessToken}&language=en&EIO=4&transport=websocket`;
-
     console.log('Connecting to WebSocket...');
 
-    return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(wsUrl);
-
-      this.ws.on('open', () => {
-        console.log('WebSocket connected successfully');
-        this.isConnected = true;
-        
-        // Send initial connection message "40" as per Socket.IO protocol
-        console.log('Sending initial connection message: 40');
-        this.ws!.send('40');
-        
-        resolve();
-      });
-
-      this.ws.on('message', (data: Buffer) => {
-        this.handleWebSocketMessage(data.toString());
-      });
-
-      this.ws.on('error', (error: Error) => {
-        console.error('WebSocket error:', error);
-        this.isConnected = false;
-        if (this.onErrorCallback) {
-          this.onErrorCallback(error);
-        }
-      });
-
-      this.ws.on('close', (code: number, reason: Buffer) => {
-        console.log(`WebSocket closed: ${code} ${reason.toString()}`);
-        this.isConnected = false;
-        this.clearPingTimer();
-        this.scheduleReconnect();
-      });
-
-      // Set timeout for connection
-      setTimeout(() => {
-        if (!this.isConnected) {
-          reject(new Error('WebSocket connection timeout'));
-        }
-      }, 10000);
+    const socket = new SocketIoClient<LiveServerEvents>({
+      url: this.WEBSOCKET_URL,
+      query: { access_token: tokenData.accessToken, language: 'en' },
+      sendPings: true
     });
-  }
 
-  /**
-   * Disconnect WebSocket
-   */
-  private disconnectWebSocket(): void {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    this.clearPingTimer();
-    this.clearReconnectTimer();
-    this.isConnected = false;
-    this.isHandshakeComplete = false;
-    this.sessionId = null;
-  }
+    socket.on('subscriptions', payload => console.log('Subscription response:', payload));
+    socket.on('single-event-update', payload => this.handleSingleEventUpdate(payload));
+    socket.on('offer-feed-update-live', payload => this.handleOfferFeedUpdate(payload));
 
-  /**
-   * Handle WebSocket messages
-   */
-  private handleWebSocketMessage(message: string): void {
-    try {
-      console.log('Received WebSocket message:', message.substring(0, 100) + '...');
-
-      // Handle initial connection message
-      if (message.startsWith('0{')) {
-        const data = JSON.parse(message.substring(1));
-        this.pingInterval = data.pingInterval || 25000;
-        console.log(`Set ping interval to ${this.pingInterval}ms`);
-        this.startPingTimer();
-        return;
-      }
+    socket.setDisconnectCallback((reason: DisconnectReason) => {
+      console.log(`WebSocket disconnected: ${reason}`);
 
-      // Handle connection confirmation
-      if (message === '40') {
-        console.log('Received connection confirmation');
+      // Closed on purpose, or an older socket that was already replaced
+      if (reason === 'io client disconnect' || this.socket !== socket) {
         return;
       }
 
-      // Handle handshake completion (40{"sid":"..."})
-      if (message.startsWith('40{')) {
-        const data = JSON.parse(message.substring(2));
-        this.sessionId = data.sid;
-        this.isHandshakeComplete = true;
-        console.log(`Handshake complete with session ID: ${this.sessionId}`);
-        return;
+      this.socket = null;
+      if (this.isTracking()) {
+        this.scheduleReconnect(reason);
       }
+    });
 
-      // Handle ping response
-      if (message === '3') {
-        console.log('Received pong');
-        return;
+    socket.setErrorCallback(error => {
+      if (this.onErrorCallback) {
+        this.onErrorCallback(error);
       }
+    });
 
-      // Handle subscription and data messages
-      if (message.startsWith('42[')) {
-        const data = JSON.parse(message.substring(2));
-        const [messageType, payload] = data;
-
-        switch (messageType) {
-          case 'subscriptions':
-            console.log('Subscription response:', payload);
-            break;
-
-          case 'single-event-update':
-            this.handleSingleEventUpdate(payload);
-            break;
-
-          case 'offer-feed-update-live':
-            this.handleOfferFeedUpdate(payload);
-            break;
-
-          default:
-            console.log(`Unknown message type: ${messageType}`);
-        }
+    this.socket = socket;
+    try {
+      await socket.connect();
+    } catch (error) {
+      if (this.socket === socket) {
+        this.socket = null;
       }
+      throw error;
+    }
+  }
 
-    } catch (error) {
-      console.error('Error handling WebSocket message:', error);
+  /**
+   * Disconnect WebSocket
+   */
+  private disconnectWebSocket(): void {
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
     }
+    this.clearReconnectTimer();
+    this.reconnectAttempt = 0;
+    this.tokenRejected = false;
   }
 
   /**
@@ -687,10 +851,16 @@ export class MeridianbetLiveService {
   private handleSingleEventUpdate(payload: string): void {
     try {
       const data: LiveEventUpdate = JSON.parse(payload);
+      this.validator.validate('single-event-update', data);
+      if (this.archivedEvents.has(data.header.eventId)) {
+        return;
+      }
+      this.nameResolver.learn(data.header.eventId, data.games || []);
       console.log(`Single event update for event ${data.header.eventId}: ${data.header.matchTime}`);
 
       // Merge event data instead of replacing
       this.mergeEventData(data.header.eventId, data);
+      this.markChanged(data.header.eventId);
       this.lastUpdateTime = new Date();
 
       // Broadcast updated data
@@ -706,10 +876,20 @@ export class MeridianbetLiveService {
   private handleOfferFeedUpdate(payload: string): void {
     try {
       const data: LiveOfferUpdate = JSON.parse(payload);
+      this.validator.validate('offer-feed-update-live', data);
       console.log(`Offer feed update for event ${data.header.eventId}: ${data.header.matchTime}`);
 
       const eventId = data.header.eventId;
-      
+      if (this.archivedEvents.has(eventId)) {
+        return;
+      }
+
+      for (const group of (data.positions || []).flatMap(position => position.groups || [])) {
+        if (group.containsTemplateWithVariableMarketName && group.selections?.[0]) {
+          this.nameResolver.markVariable(group.selections[0].gameTemplateId);
+        }
+      }
+
       // Check if this event exists in our live events
       const existingEvent = this.liveEvents.get(eventId);
       
@@ -720,6 +900,9 @@ export class MeridianbetLiveService {
         return;
       }
       
+      // The header carries the latest score, clock and cards
+      this.mergeEventData(eventId, { header: data.header, games: [] });
+
       // Get existing market data for this event
       const existingMarkets = this.liveMarkets.get(eventId) || [];
       
@@ -756,15 +939,17 @@ export class MeridianbetLiveService {
               
               if (existingSelection) {
                 // Update the existing selection with new data
+                const previousSelection = { ...existingSelection };
                 existingSelection.price = updateSelection.price;
                 existingSelection.state = updateSelection.state;
+                this.recordSelectionChange(eventId, gameTemplateId, updateSelection.marketId, previousSelection, existingSelection);
               } else {
                 // Add new selection if it doesn't exist
                 existingMarketGroup.selections.push({
                   selectionId: updateSelection.selectionId,
                   price: updateSelection.price,
                   state: updateSelection.state,
-                  name: `Selection ${updateSelection.selectionId.split('_').pop() || 'Unknown'}`
+                  name: this.nameResolver.resolveSelectionName(eventId, gameTemplateId, updateSelection.selectionId, existingMarket.marketName)
                 });
               }
             }
@@ -774,6 +959,7 @@ export class MeridianbetLiveService {
       
       // Update the stored markets
       this.liveMarkets.set(eventId, existingMarkets);
+      this.markChanged(eventId);
       this.lastUpdateTime = new Date();
 
       // Broadcast updated data
@@ -809,20 +995,23 @@ export class MeridianbetLiveService {
       topMatch: data.header.topMatch || false,
       setEventOrder: data.header.setEventOrder || 0,
       numberOfVisibleSelections: data.header.numberOfVisibleSelections || 0,
-      hasEarlyPayout: data.header.hasEarlyPayout || false,
-      homeTeamName: data.header.rivals?.[0] || 'Home',
-      awayTeamName: data.header.rivals?.[1] || 'Away'
+      hasEarlyPayout: data.header.hasEarlyPayout || false
     };
     
     // Convert positions to market data
     const marketData: MarketData[] = data.positions.map(position => ({
       markets: position.groups.map(group => ({
-        name: group.name || 'Unknown Market',
+        name: group.name || this.nameResolver.resolveMarketName(group.selections?.[0]?.gameTemplateId || 0),
         selections: (group.selections || []).map(selection => ({
           selectionId: selection.selectionId,
           price: selection.price,
           state: selection.state,
-          name: this.getSelectionName(selection.selectionId, group.name)
+          name: this.nameResolver.resolveSelectionName(
+            eventId,
+            selection.gameTemplateId,
+            selection.selectionId,
+            group.name || this.nameResolver.resolveMarketName(selection.gameTemplateId, '')
+          )
         })),
         marketId: group.selections?.[0]?.marketId || 0,
         state: 'ACTIVE',
@@ -831,7 +1020,10 @@ export class MeridianbetLiveService {
         isEarlyPayout: group.earlyPayoutMarket
       })),
       gameTemplateId: position.groups[0]?.selections?.[0]?.gameTemplateId || 0,
-      marketName: position.groups[0]?.name || 'Unknown Market',
+      marketName: this.nameResolver.resolveMarketName(
+        position.groups[0]?.selections?.[0]?.gameTemplateId || 0,
+        position.groups[0]?.name
+      ),
       priority: 0,
       marketType: 'REGULAR',
       hasEarlyPayout: position.groups[0]?.earlyPayoutMarket || false,
@@ -847,50 +1039,22 @@ export class MeridianbetLiveService {
     // Store the new event and markets
     this.liveEvents.set(eventId, liveEvent);
     this.liveMarkets.set(eventId, marketData);
+    if (data.header.sport?.sportId) {
+      this.eventSportIds.set(eventId, data.header.sport.sportId);
+    }
+    this.markChanged(eventId);
     this.lastUpdateTime = new Date();
     
     console.log(`Created new event ${eventId} with ${marketData.length} market groups`);
     
     // Broadcast the updated data
     this.broadcastLiveData();
-  }
 
-  /**
-   * Get proper selection name based on selection ID and market name
-   */
-  private getSelectionName(selectionId: string, marketName?: string): string {
-    const parts = selectionId.split('_');
-    const selectionIndex = parts[parts.length - 1];
-    
-    // Try to determine selection name based on market type
-    if (marketName?.toLowerCase().includes('final score') || marketName?.toLowerCase().includes('scores')) {
-      switch (selectionIndex) {
-        case '0': return '1';
-        case '1': return 'X';
-        case '2': return '2';
-        default: return `Selection ${selectionIndex}`;
-      }
-    } else if (marketName?.toLowerCase().includes('total goals') || marketName?.toLowerCase().includes('over')) {
-      switch (selectionIndex) {
-        case '0': return 'Under';
-        case '1': return 'Over';
-        default: return `Selection ${selectionIndex}`;
-      }
-    } else if (marketName?.toLowerCase().includes('double chance')) {
-      switch (selectionIndex) {
-        case '0': return '1X';
-        case '1': return '12';
-        case '2': return 'X2';
-        default: return `Selection ${selectionIndex}`;
-      }
-    } else {
-      // Default selection names
-      switch (selectionIndex) {
-        case '0': return '1';
-        case '1': return 'X';
-        case '2': return '2';
-        default: return `Selection ${selectionIndex}`;
-      }
+    // The offer feed only carries the main markets; fetch the rest and subscribe to the event
+    const sportId = data.header.sport?.sportId;
+    if (sportId && this.activeSportIds.has(sportId) && !this.subscribedEvents.has(eventId)) {
+      this.hydrateEvents(sportId, [{ header: eventHeader }])
+        .catch(error => console.error(`Failed to hydrate live event ${eventId}:`, error));
     }
   }
 
@@ -898,14 +1062,10 @@ export class MeridianbetLiveService {
    * Subscribe to live updates
    */
   private async subscribeToLiveUpdates(sportId: number, events: EventData[]): Promise<void> {
-    if (!this.ws || !this.isConnected) {
+    if (!this.socket?.isConnected()) {
       throw new Error('WebSocket not connected');
     }
 
-    if (!this.isHandshakeComplete) {
-      throw new Error('WebSocket handshake not complete');
-    }
-
     // Subscribe to sport updates
     this.sendMessage('subscriptions', JSON.stringify({
       subscriptionType: 'SPORT_UPDATE_LIVE',
@@ -922,84 +1082,337 @@ export class MeridianbetLiveService {
 
     // Subscribe to individual events
     for (const event of events) {
+      this.subscribeToEvent(event.header.eventId);
+    }
+
+    console.log(`Subscribed to ${events.length} live events`);
+  }
+
+  private subscribeToEvent(eventId: number): void {
+    this.sendMessage('subscriptions', JSON.stringify({
+      subscriptionType: 'SINGLE_EVENT_UPDATE_V2',
+      action: 'SUBSCRIBE',
+      eventId: eventId,
+      selectedGameGroup: 'all'
+    }));
+
+    this.subscribedEvents.add(eventId);
+    console.log(`Subscribed to event ${eventId}`);
+  }
+
+  /**
+   * Start the periodic discovery of started and ended live events, once for all sports
+   */
+  private startDiscovery(): void {
+    if (this.discoveryTimer) {
+      return;
+    }
+
+    this.discoveryTimer = setInterval(() => {
+      this.discoverLiveEvents().catch(error => console.error('Live event discovery failed:', error));
+    }, this.DISCOVERY_INTERVAL);
+  }
+
+  private stopDiscovery(): void {
+    if (this.discoveryTimer) {
+      clearInterval(this.discoveryTimer);
+      this.discoveryTimer = null;
+    }
+  }
+
+  /**
+   * Compare the live events listing of every active sport with the tracked events: retire events
+   * that finished, were cancelled or left the listing, and hydrate and subscribe to new ones
+   */
+  private async discoverLiveEvents(): Promise<void> {
+    // A reconnect resyncs everything anyway
+    if (!this.socket?.isConnected() || this.reconnectAttempt > 0) {
+      return;
+    }
+
+    const sportIds = new Set([...this.activeSportIds, ...Array.from(this.trackedEvents.values()).map(tracked => tracked.sportId)]);
+
+    for (const sportId of sportIds) {
+      try {
+        const events = await this.getInitialLiveEvents(sportId);
+        const listedEventIds = new Set(events.map(event => event.header.eventId));
+
+        for (const [eventId, eventSportId] of Array.from(this.eventSportIds)) {
+          if (eventSportId !== sportId) {
+            continue;
+          }
+
+          const reason = this.getEndReason(eventId);
+          if (reason !== 'removed' || (!listedEventIds.has(eventId) && !this.isInHandoverGracePeriod(eventId))) {
+            this.retireEvent(eventId, reason);
+          }
+        }
+
+        // Sports with only single events followed do not pick up new events
+        if (!this.activeSportIds.has(sportId)) {
+          continue;
+        }
+
+        const newEvents = events.filter(event =>
+          !this.subscribedEvents.has(event.header.eventId)
+          && this.archivedEvents.get(event.header.eventId)?.reason !== 'finished'
+          && this.archivedEvents.get(event.header.eventId)?.reason !== 'cancelled'
+          && !this.isEventOver(event.header)
+        );
+        if (newEvents.length > 0) {
+          console.log(`Discovered ${newEvents.length} new live events for sport ${sportId}`);
+          await this.hydrateEvents(sportId, newEvents);
+        }
+      } catch (error) {
+        console.error(`Live event discovery failed for sport ${sportId}:`, error);
+      }
+    }
+
+    this.lastUpdateTime = new Date();
+    this.broadcastLiveData();
+
+    // The last event followed on its own has ended and no sport is active
+    if (!this.isTracking()) {
+      console.log('No live events left to follow, closing the live WebSocket');
+      this.stopLiveExtraction();
+    }
+  }
+
+  /**
+   * Fetch the full markets of events that started after extraction began, store them and subscribe to their updates
+   */
+  private async hydrateEvents(sportId: number, events: EventData[]): Promise<void> {
+    const pending = events.filter(event => !this.hydratingEvents.has(event.header.eventId));
+    pending.forEach(event => this.hydratingEvents.add(event.header.eventId));
+
+    try {
+      const markets = await this.getInitialLiveMarkets(pending);
+
+      for (const event of pending) {
+        const eventId = event.header.eventId;
+        // Extraction for the sport or event may have stopped while the markets were fetched
+        if (!this.activeSportIds.has(sportId) && !this.trackedEvents.has(eventId)) {
+          continue;
+        }
+
+        const existing = this.liveEvents.get(eventId);
+        const eventMarkets = markets.get(eventId) || existing?.games || [];
+        this.liveEvents.set(eventId, {
+          header: { ...existing?.header, ...event.header },
+          games: eventMarkets
+        });
+        this.liveMarkets.set(eventId, eventMarkets);
+        this.eventSportIds.set(eventId, sportId);
+        this.archivedEvents.delete(eventId);  // Back in the listing after it was removed
+        this.markChanged(eventId);
+        this.subscribeToEvent(eventId);
+      }
+
+      this.lastUpdateTime = new Date();
+      this.broadcastLiveData();
+    } finally {
+      pending.forEach(event => this.hydratingEvents.delete(event.header.eventId));
+    }
+  }
+
+  /**
+   * A handed-over event can take a while to appear in the live events listing after its scheduled start
+   */
+  private isInHandoverGracePeriod(eventId: number): boolean {
+    const tracked = this.trackedEvents.get(eventId);
+    return !!tracked && Date.now() - tracked.trackedSince < this.HANDOVER_GRACE_PERIOD;
+  }
+
+  private isEventOver(header: EventData['header']): boolean {
+    const phase = parseMatchPhase(header);
+    return phase === 'finished' || phase === 'cancelled';
+  }
+
+  /**
+   * Why a tracked event would end now: its header says it finished or was cancelled, otherwise it was just removed
+   */
+  private getEndReason(eventId: number): LiveEventEndReason {
+    const header = this.liveEvents.get(eventId)?.header;
+    const phase = header ? parseMatchPhase(header) : 'in-play';
+    return phase === 'finished' || phase === 'cancelled' ? phase : 'removed';
+  }
+
+  /**
+   * Unsubscribe from an event that is over, archive its final state and drop it from the live offer
+   */
+  private retireEvent(eventId: number, reason: LiveEventEndReason): void {
+    if (this.subscribedEvents.has(eventId)) {
       this.sendMessage('subscriptions', JSON.stringify({
         subscriptionType: 'SINGLE_EVENT_UPDATE_V2',
-        action: 'SUBSCRIBE',
-        eventId: event.header.eventId,
-        selectedGameGroup: 'all'
+        action: 'UNSUBSCRIBE',
+        eventId: eventId
       }));
+    }
+
+    const event = this.liveEvents.get(eventId);
+    if (event) {
+      this.archivedEvents.delete(eventId);
+      this.archivedEvents.set(eventId, {
+        header: event.header,
+        markets: this.liveMarkets.get(eventId) || event.games,
+        reason,
+        archivedAt: new Date().toISOString()
+      });
 
-      this.subscribedEvents.add(event.header.eventId);
-      console.log(`Subscribed to event ${event.header.eventId}`);
+      // Maps iterate in insertion order, so the first key is the oldest archived event
+      if (this.archivedEvents.size > this.ARCHIVE_SIZE) {
+        this.archivedEvents.delete(this.archivedEvents.keys().next().value!);
+      }
     }
 
-    console.log(`Subscribed to ${events.length} live events`);
+    this.subscribedEvents.delete(eventId);
+    this.trackedEvents.delete(eventId);
+    this.eventSportIds.delete(eventId);
+    this.liveEvents.delete(eventId);
+    this.liveMarkets.delete(eventId);
+    this.nameResolver.forgetEvents([eventId]);
+    this.markRemoved(eventId);
+    console.log(`Retired live event ${eventId} (${reason})`);
   }
 
   /**
    * Send WebSocket message
    */
-  private sendMessage(messageType: string, payload: string): void {
-    if (!this.ws || !this.isConnected) {
+  private sendMessage(messageType: keyof LiveServerEvents, payload: string): void {
+    if (!this.socket?.isConnected()) {
       console.error('Cannot send message: WebSocket not connected');
       return;
     }
 
-    if (!this.isHandshakeComplete) {
-      console.error('Cannot send message: WebSocket handshake not complete');
+    console.log(`Sending ${messageType} message: ${payload.substring(0, 100)}...`);
+    this.socket.emit(messageType, payload);
+  }
+
+  /**
+   * Schedule the next reconnect attempt with capped exponential backoff, or give up once the attempts are used up
+   */
+  private scheduleReconnect(reason: string): void {
+    this.clearReconnectTimer();
+
+    if (this.reconnectAttempt >= this.MAX_RECONNECT_ATTEMPTS) {
+      this.failLiveExtraction(reason);
       return;
     }
 
-    // Properly escape the JSON payload for Socket.IO message
-    const escapedPayload = payload.replace(/"/g, '\\"');
-    const message = `42["${messageType}","${escapedPayload}"]`;
-    console.log(`Sending message: ${message.substring(0, 100)}...`);
-    this.ws.send(message);
+    this.reconnectAttempt++;
+    const delay = Math.round(Math.min(this.RECONNECT_MAX_DELAY, this.RECONNECT_DELAY * 2 ** (this.reconnectAttempt - 1)) * (0.5 + Math.random() / 2));
+    const state = this.socket?.isConnected() ? 'degraded' : 'reconnecting';
+
+    console.log(`Live WebSocket ${state}, attempt ${this.reconnectAttempt}/${this.MAX_RECONNECT_ATTEMPTS} in ${delay}ms (${reason})`);
+    this.setConnectionState(state, reason, new Date(Date.now() + delay));
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delay);
   }
 
   /**
-   * Start ping timer
+   * Reconnect with a fresh token unless the socket is already back, then resync the state missed while disconnected
    */
-  private startPingTimer(): void {
-    this.clearPingTimer();
-    this.pingTimer = setInterval(() => {
-      if (this.ws && this.isConnected) {
-        console.log('Sending ping');
-        this.ws.send('2');
+  private async reconnect(): Promise<void> {
+    this.reconnectTimer = null;
+    console.log('Attempting to reconnect WebSocket...');
+
+    try {
+      if (!this.socket?.isConnected()) {
+        await this.refreshTokenForReconnect();
+        await this.ensureConnected();
       }
-    }, this.pingInterval);
+      await this.resyncLiveState();
+
+      if (this.isTracking()) {
+        console.log(`Live WebSocket reconnected after ${this.reconnectAttempt} attempts`);
+        this.reconnectAttempt = 0;
+        this.tokenRejected = false;
+        this.setConnectionState('connected', null);
+      }
+    } catch (error) {
+      // Live extraction was stopped while the attempt was running
+      if (!this.isTracking()) {
+        return;
+      }
+
+      this.tokenRejected = error instanceof SocketIoConnectError;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Reconnection failed:', message);
+      this.scheduleReconnect(message);
+    }
   }
 
   /**
-   * Clear ping timer
+   * Refresh the token before reconnecting: always when the last handshake was refused, otherwise only when it is about to expire
    */
-  private clearPingTimer(): void {
-    if (this.pingTimer) {
-      clearInterval(this.pingTimer);
-      this.pingTimer = null;
+  private async refreshTokenForReconnect(): Promise<void> {
+    const tokenData = this.tokenService.getCurrentToken();
+    if (this.tokenRejected && tokenData) {
+      await this.tokenService.forceTokenRefresh(tokenData.accessToken);
+    } else {
+      await this.tokenService.refreshTokenIfNeeded();
     }
   }
 
   /**
-   * Schedule reconnection
+   * Refetch the live events and markets of every active sport and every event followed one by one,
+   * drop the events that left the live offer while disconnected and subscribe to the rest again
    */
-  private scheduleReconnect(): void {
-    this.clearReconnectTimer();
-    this.reconnectTimer = setTimeout(async () => {
-      console.log('Attempting to reconnect WebSocket...');
-      try {
-        await this.connectWebSocket();
-        if (this.currentSportId) {
-          // Re-subscribe to events
-          const events = Array.from(this.subscribedEvents);
-          const eventData = events.map(eventId => ({ header: { eventId } as EventData['header'] }));
-          await this.subscribeToLiveUpdates(this.currentSportId, eventData as EventData[]);
+  private async resyncLiveState(): Promise<void> {
+    for (const sportId of this.activeSportIds) {
+      const events = await this.getInitialLiveEvents(sportId);
+      const markets = await this.getInitialLiveMarkets(events);
+      const liveEventIds = new Set(events.map(event => event.header.eventId));
+
+      for (const [eventId, eventSportId] of Array.from(this.eventSportIds)) {
+        if (eventSportId === sportId && !liveEventIds.has(eventId) && !this.isInHandoverGracePeriod(eventId)) {
+          this.retireEvent(eventId, this.getEndReason(eventId));
         }
-      } catch (error) {
-        console.error('Reconnection failed:', error);
-        this.scheduleReconnect(); // Try again
       }
-    }, this.RECONNECT_DELAY);
+
+      console.log(`Resynced ${events.length} live events for sport ${sportId}`);
+      this.storeInitialData(sportId, events, markets);
+      await this.subscribeToLiveUpdates(sportId, events);
+    }
+
+    for (const [eventId, tracked] of Array.from(this.trackedEvents)) {
+      if (this.trackedEvents.has(eventId)) {
+        await this.hydrateEvents(tracked.sportId, [{ header: this.liveEvents.get(eventId)?.header || tracked.header }]);
+      }
+    }
+  }
+
+  /**
+   * Stop live extraction after the last reconnect attempt failed
+   */
+  private failLiveExtraction(reason: string): void {
+    const message = `Live WebSocket reconnection failed after ${this.reconnectAttempt} attempts: ${reason}`;
+    console.error(message);
+
+    this.setConnectionState('failed', reason);
+    this.stopLiveExtraction();
+    this.removeAllLiveEvents();
+
+    if (this.onExtractionFailedCallback) {
+      this.onExtractionFailedCallback(new Error(message));
+    }
+    if (this.onErrorCallback) {
+      this.onErrorCallback(new Error(message));
+    }
+  }
+
+  private setConnectionState(state: LiveConnectionState, reason: string | null, nextAttemptAt: Date | null = null): void {
+    this.connectionStatus = {
+      state,
+      attempt: this.reconnectAttempt,
+      maxAttempts: this.MAX_RECONNECT_ATTEMPTS,
+      nextAttemptAt: nextAttemptAt ? nextAttemptAt.toISOString() : null,
+      reason,
+      at: new Date().toISOString()
+    };
+
+    if (this.onConnectionStateCallback) {
+      this.onConnectionStateCallback(this.connectionStatus);
+    }
   }
 
   /**
@@ -1012,13 +1425,6 @@ export class MeridianbetLiveService {
     }
   }
 
-  /**
-   * Delay helper
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Cleanup resources
    */
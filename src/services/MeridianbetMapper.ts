@@ -0,0 +1,242 @@
+import { EventData, RawEventHeader, MarketData, Market as RawMarket, RawOfferPosition } from './MeridianbetDataService';
+import { LiveOfferUpdate } from './MeridianbetLiveService';
+import { computeMarketAnalytics } from './MarketAnalytics';
+import {
+  DataSource,
+  Event,
+  League,
+  Market,
+  MarketGroup,
+  Participant,
+  PeriodScore,
+  Region,
+  Score,
+  Sport
+} from '../models/canonical';
+
+/**
+ * Maps raw betshop payloads (league listings, event markets, live events and WebSocket updates)
+ * onto the canonical model. Only known fields are read; unknown ones are reported by UpstreamValidator.
+ */
+export class MeridianbetMapper {
+  /**
+   * Map a raw event with its market groups
+   */
+  public mapEvent(event: Pick<EventData, 'header'>, marketGroups: MarketData[], source: DataSource): Event {
+    const header = event.header;
+
+    return {
+      id: header.eventId,
+      code: header.code ?? null,
+      source,
+      sport: this.mapSport(header),
+      league: this.mapLeague(header),
+      participants: this.mapParticipants(header),
+      startTime: header.startTime ? new Date(header.startTime) : null,
+      state: header.state ?? null,
+      matchTime: header.matchTime || null,
+      score: this.mapScore(header),
+      marketGroups: marketGroups.map(group => this.mapMarketGroup(group))
+    };
+  }
+
+  /**
+   * Map a set of events together with the markets fetched for them
+   */
+  public mapEvents(events: Array<Pick<EventData, 'header'>>, markets: Map<number, MarketData[]>, source: DataSource): Event[] {
+    return events.map(event => this.mapEvent(event, markets.get(event.header.eventId) || [], source));
+  }
+
+  /**
+   * Map an offer-feed-update-live WebSocket payload, whose markets come as positions
+   */
+  public mapOfferUpdate(update: LiveOfferUpdate): Event {
+    return {
+      ...this.mapEvent(update, [], 'live'),
+      marketGroups: this.mapPositions(update.positions)
+    };
+  }
+
+  public mapMarketGroup(group: MarketData): MarketGroup {
+    return {
+      gameTemplateId: group.gameTemplateId,
+      name: group.marketName,
+      type: group.marketType ?? null,
+      priority: group.priority ?? null,
+      favorite: group.favorite === true,
+      earlyPayout: group.hasEarlyPayout === true,
+      markets: (group.markets || []).map(market => this.mapMarket(market))
+    };
+  }
+
+  public mapMarket(market: RawMarket): Market {
+    const outcomes = (market.selections || []).map(selection => ({
+      id: selection.selectionId,
+      name: selection.name,
+      price: selection.price,
+      state: selection.state
+    }));
+
+    return {
+      id: market.marketId,
+      name: market.name,
+      state: market.state,
+      handicap: market.handicap ?? null,
+      overUnder: market.overUnder ?? null,
+      earlyPayout: market.isEarlyPayout === true,
+      outcomes,
+      analytics: computeMarketAnalytics(outcomes)
+    };
+  }
+
+  /**
+   * Offer positions carry one market per group; group them by gameTemplateId
+   */
+  private mapPositions(positions: RawOfferPosition[]): MarketGroup[] {
+    const groups = new Map<number, MarketGroup>();
+
+    for (const position of positions || []) {
+      for (const group of position.groups || []) {
+        const selections = group.selections || [];
+        if (selections.length === 0) {
+          continue;
+        }
+
+        const gameTemplateId = selections[0].gameTemplateId;
+        let marketGroup = groups.get(gameTemplateId);
+        if (!marketGroup) {
+          marketGroup = {
+            gameTemplateId,
+            name: group.name || '',
+            type: null,
+            priority: position.index,
+            favorite: false,
+            earlyPayout: group.earlyPayoutMarket === true,
+            markets: []
+          };
+          groups.set(gameTemplateId, marketGroup);
+        }
+
+        const outcomes = selections.map(selection => ({
+          id: selection.selectionId,
+          name: '',
+          price: selection.price,
+          state: selection.state
+        }));
+
+        marketGroup.markets.push({
+          id: selections[0].marketId,
+          name: group.name || '',
+          state: selections.every(selection => selection.state !== 'ACTIVE') ? selections[0].state : 'ACTIVE',
+          handicap: null,
+          overUnder: group.overUnder ?? null,
+          earlyPayout: group.earlyPayoutMarket === true,
+          outcomes,
+          analytics: computeMarketAnalytics(outcomes)
+        });
+      }
+    }
+
+    return Array.from(groups.values());
+  }
+
+  private mapSport(header: RawEventHeader): Sport | null {
+    if (!header.sport) {
+      return null;
+    }
+    return {
+      id: header.sport.sportId,
+      name: header.sport.name,
+      slug: header.sport.slug
+    };
+  }
+
+  private mapRegion(header: RawEventHeader): Region | null {
+    if (!header.region) {
+      return null;
+    }
+    return {
+      id: header.region.regionId,
+      name: header.region.name,
+      slug: header.region.slug
+    };
+  }
+
+  private mapLeague(header: RawEventHeader): League | null {
+    if (!header.league) {
+      return null;
+    }
+    return {
+      id: header.league.leagueId,
+      name: header.league.name,
+      slug: header.league.slug,
+      favorite: header.league.favoriteLeague === true,
+      region: this.mapRegion(header)
+    };
+  }
+
+  private mapParticipants(header: RawEventHeader): Participant[] {
+    const rivals = header.rivals || [];
+    const slugs = header.rivalsSlug ? header.rivalsSlug.split('-vs-') : [];
+
+    return rivals.map((name, index) => ({
+      name,
+      slug: slugs.length === rivals.length ? slugs[index] : null,
+      side: rivals.length === 2 ? (index === 0 ? 'home' : 'away') : null
+    }));
+  }
+
+  public mapScore(header: RawEventHeader): Score | null {
+    const periodScores = header.formattedResult?.periodScores ?? header.result?.periods;
+    if (!periodScores || periodScores.length === 0) {
+      return null;
+    }
+
+    const periods = periodScores.map(period => this.parseScorePair(period));
+    const complete = periods.every(period => period.home !== null && period.away !== null);
+
+    return {
+      home: complete ? periods.reduce((sum, period) => sum + period.home!, 0) : null,
+      away: complete ? periods.reduce((sum, period) => sum + period.away!, 0) : null,
+      periods,
+      redCards: this.parseCards(header.formattedResult?.redCards),
+      yellowCards: this.parseCards(header.formattedResult?.yellowCards)
+    };
+  }
+
+  /**
+   * Period scores come as "2:1" strings, [2, 1] arrays or objects with home/away style keys
+   */
+  public parseScorePair(value: unknown): PeriodScore {
+    const toNumber = (part: unknown): number | null => {
+      const parsed = typeof part === 'number' ? part : parseInt(String(part));
+      return isNaN(parsed) ? null : parsed;
+    };
+
+    if (typeof value === 'string') {
+      const [home, away] = value.split(/[:\-]/);
+      return { home: toNumber(home), away: toNumber(away) };
+    }
+
+    if (Array.isArray(value)) {
+      return { home: toNumber(value[0]), away: toNumber(value[1]) };
+    }
+
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      return {
+        home: toNumber(record.home ?? record.homeScore ?? record.rival1 ?? record.first),
+        away: toNumber(record.away ?? record.awayScore ?? record.rival2 ?? record.second)
+      };
+    }
+
+    return { home: null, away: null };
+  }
+
+  private parseCards(cards: number[] | undefined): PeriodScore | null {
+    if (!cards || cards.length < 2) {
+      return null;
+    }
+    return { home: cards[0], away: cards[1] };
+  }
+}
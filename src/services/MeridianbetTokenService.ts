@@ -25,6 +25,14 @@ export class MeridianbetTokenService {
   private refreshPromise: Promise<TokenData> | null = null;
   private clientId: string | null = null;
   private clientName: string | null = null;
+  private onTokenRefreshCallback: ((tokenData: TokenData) => void) | null = null;
+
+  /**
+   * Set callback for every successful token refresh
+   */
+  setTokenRefreshCallback(callback: (tokenData: TokenData) => void): void {
+    this.onTokenRefreshCallback = callback;
+  }
 
   async initialize(): Promise<void> {
     try {
@@ -463,18 +471,45 @@ export class MeridianbetTokenService {
     }
   }
 
+  /**
+   * Refresh a token the upstream rejected even though it has not expired yet. Concurrent callers
+   * that saw the same rejected token share one refresh.
+   */
+  async forceTokenRefresh(rejectedAccessToken: string): Promise<TokenData> {
+    if (this.refreshInProgress && this.refreshPromise) {
+      return await this.refreshPromise;
+    }
+
+    // Another caller already replaced the rejected token
+    if (this.tokenData && this.tokenData.accessToken !== rejectedAccessToken) {
+      return this.tokenData;
+    }
+
+    this.refreshInProgress = true;
+    this.refreshPromise = this.performTokenRefresh();
+
+    try {
+      return await this.refreshPromise;
+    } finally {
+      this.refreshInProgress = false;
+      this.refreshPromise = null;
+    }
+  }
+
   private async performTokenRefresh(): Promise<TokenData> {
     console.log('Token expired or not found, attempting refresh...');
     
-    // First try to refresh using refresh token
-    const refreshedToken = await this.refreshTokenUsingRefreshToken();
-    if (refreshedToken) {
-      return refreshedToken;
+    // First try to refresh using refresh token, and extract a new token using Playwright if that fails
+    let tokenData = await this.refreshTokenUsingRefreshToken();
+    if (!tokenData) {
+      console.log('Refresh token failed, extracting new token using Playwright...');
+      tokenData = await this.extractAccessToken();
     }
 
-    // If refresh token fails, extract new token using Playwright
-    console.log('Refresh token failed, extracting new token using Playwright...');
-    return await this.extractAccessToken();
+    if (this.onTokenRefreshCallback) {
+      this.onTokenRefreshCallback(tokenData);
+    }
+    return tokenData;
   }
 
   // Method for other services to wait for token refresh completion
@@ -0,0 +1,419 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventData, MarketData } from './MeridianbetDataService';
+
+export type SnapshotSource = 'pregame' | 'live';
+
+export interface EventSnapshotRecord {
+  eventId: number;
+  source: SnapshotSource;
+  capturedAt: Date;
+  leagueName: string | null;
+  regionName: string | null;
+  rivals: string[];
+  startTime: number | null;
+  state: string | null;
+  header: EventData['header'];
+}
+
+export interface SelectionPriceRecord {
+  eventId: number;
+  source: SnapshotSource;
+  capturedAt: Date;
+  gameTemplateId: number;
+  marketGroupName: string;
+  marketId: number;
+  marketName: string;
+  handicap: number | null;
+  overUnder: number | null;
+  selectionId: string;
+  selectionName: string;
+  price: number;
+  state: string;
+}
+
+export interface AlertRecord {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  eventId: number;
+  message: string;
+  details: Record<string, any>;
+  firedAt: Date;
+}
+
+export interface HistoryQuery {
+  from?: Date;
+  to?: Date;
+  source?: SnapshotSource;
+}
+
+export class OddsHistoryService {
+  private db: Database.Database | null = null;
+  private readonly ENABLED = process.env.ODDS_HISTORY_ENABLED !== 'false';
+  private readonly DB_PATH = process.env.ODDS_HISTORY_DB_PATH || path.join(process.cwd(), 'data', 'odds-history.db');
+
+  // Last recorded header and price/state per source and event, used to skip unchanged rows
+  private lastHeaders: Map<string, string> = new Map();
+  private lastSelectionState: Map<string, Map<string, string>> = new Map();
+
+  /**
+   * Open the database and create the schema if needed
+   */
+  public initialize(): void {
+    if (!this.ENABLED) {
+      console.log('Odds history is disabled (ODDS_HISTORY_ENABLED=false)');
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.DB_PATH), { recursive: true });
+    this.db = new Database(this.DB_PATH);
+    this.db.pragma('journal_mode = WAL');
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS event_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_id INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        captured_at INTEGER NOT NULL,
+        league_name TEXT,
+        region_name TEXT,
+        rivals TEXT,
+        start_time INTEGER,
+        state TEXT,
+        header_json TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_event_snapshots_event ON event_snapshots (event_id, captured_at);
+
+      CREATE TABLE IF NOT EXISTS selection_prices (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_id INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        captured_at INTEGER NOT NULL,
+        game_template_id INTEGER NOT NULL,
+        market_group_name TEXT,
+        market_id INTEGER NOT NULL,
+        market_name TEXT,
+        handicap REAL,
+        over_under REAL,
+        selection_id TEXT NOT NULL,
+        selection_name TEXT,
+        price REAL NOT NULL,
+        state TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_selection_prices_selection ON selection_prices (selection_id, captured_at);
+      CREATE INDEX IF NOT EXISTS idx_selection_prices_event ON selection_prices (event_id, captured_at);
+
+      CREATE TABLE IF NOT EXISTS alerts (
+        id TEXT PRIMARY KEY,
+        rule_id TEXT NOT NULL,
+        rule_name TEXT,
+        event_id INTEGER NOT NULL,
+        message TEXT NOT NULL,
+        details_json TEXT NOT NULL,
+        fired_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_alerts_fired ON alerts (fired_at);
+    `);
+
+    console.log(`Odds history database opened at ${this.DB_PATH}`);
+  }
+
+  /**
+   * Record a pre-game extraction result
+   */
+  public recordPreGameData(events: EventData[], markets: Map<number, MarketData[]>): void {
+    this.recordSnapshot('pregame', events, markets);
+  }
+
+  /**
+   * Record the live state broadcast by MeridianbetLiveService
+   */
+  public recordLiveData(events: Array<{ header: EventData['header'] }>, markets: Record<number, MarketData[]>): void {
+    this.recordSnapshot('live', events, new Map(Object.entries(markets).map(([eventId, data]) => [Number(eventId), data])));
+  }
+
+  /**
+   * Forget the last recorded state of events that left the offer, so it is not kept for the life of the process
+   */
+  public forgetEvents(source: SnapshotSource, eventIds: number[]): void {
+    for (const eventId of eventIds) {
+      this.lastHeaders.delete(`${source}:${eventId}`);
+      this.lastSelectionState.delete(`${source}:${eventId}`);
+    }
+  }
+
+  /**
+   * Write every changed event header and selection price in a single transaction
+   */
+  private recordSnapshot(source: SnapshotSource, events: Array<{ header: EventData['header'] }>, markets: Map<number, MarketData[]>): void {
+    if (!this.db) {
+      return;
+    }
+
+    const capturedAt = Date.now();
+
+    const insertEvent = this.db.prepare(`
+      INSERT INTO event_snapshots (event_id, source, captured_at, league_name, region_name, rivals, start_time, state, header_json)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertPrice = this.db.prepare(`
+      INSERT INTO selection_prices (event_id, source, captured_at, game_template_id, market_group_name, market_id, market_name,
+        handicap, over_under, selection_id, selection_name, price, state)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    let priceRows = 0;
+
+    // Applied to the last recorded state only once the transaction committed
+    const writtenHeaders: Map<string, string> = new Map();
+    const writtenSelections: Array<{ eventKey: string; selectionId: string; value: string }> = [];
+
+    const write = this.db.transaction(() => {
+      for (const event of events) {
+        const header = event.header;
+        const eventKey = `${source}:${header.eventId}`;
+        const headerJson = JSON.stringify(header);
+        if (this.lastHeaders.get(eventKey) === headerJson) {
+          continue;
+        }
+        writtenHeaders.set(eventKey, headerJson);
+
+        insertEvent.run(
+          header.eventId,
+          source,
+          capturedAt,
+          header.league?.name ?? null,
+          header.region?.name ?? null,
+          JSON.stringify(header.rivals || []),
+          header.startTime ?? null,
+          header.state ?? null,
+          headerJson
+        );
+      }
+
+      for (const [eventId, marketGroups] of markets) {
+        const eventKey = `${source}:${eventId}`;
+        const lastState = this.lastSelectionState.get(eventKey);
+
+        for (const group of marketGroups) {
+          for (const market of group.markets) {
+            for (const selection of market.selections) {
+              const value = `${selection.price}|${selection.state}`;
+              if (lastState?.get(selection.selectionId) === value) {
+                continue;
+              }
+              writtenSelections.push({ eventKey, selectionId: selection.selectionId, value });
+
+              insertPrice.run(
+                eventId,
+                source,
+                capturedAt,
+                group.gameTemplateId,
+                group.marketName,
+                market.marketId,
+                market.name,
+                market.handicap ?? null,
+                market.overUnder ?? null,
+                selection.selectionId,
+                selection.name,
+                selection.price,
+                selection.state
+              );
+              priceRows++;
+            }
+          }
+        }
+      }
+    });
+
+    try {
+      write();
+    } catch (error) {
+      console.error(`Failed to record ${source} snapshot:`, error);
+      return;
+    }
+
+    writtenHeaders.forEach((headerJson, eventKey) => this.lastHeaders.set(eventKey, headerJson));
+    for (const { eventKey, selectionId, value } of writtenSelections) {
+      let lastState = this.lastSelectionState.get(eventKey);
+      if (!lastState) {
+        lastState = new Map();
+        this.lastSelectionState.set(eventKey, lastState);
+      }
+      lastState.set(selectionId, value);
+    }
+
+    console.log(`Recorded ${source} snapshot: ${writtenHeaders.size} changed events, ${priceRows} price changes`);
+  }
+
+  /**
+   * Price history for a single selection, oldest first
+   */
+  public getSelectionHistory(selectionId: string, query: HistoryQuery = {}): SelectionPriceRecord[] {
+    if (!this.db) {
+      return [];
+    }
+
+    const { clause, params } = this.buildRangeClause(query);
+    const rows = this.db.prepare(
+      `SELECT * FROM selection_prices WHERE selection_id = ?${clause} ORDER BY captured_at ASC, id ASC`
+    ).all(selectionId, ...params);
+
+    return rows.map(row => this.mapPriceRow(row));
+  }
+
+  /**
+   * All event snapshots and selection prices recorded for an event within a time range
+   */
+  public getEventSnapshots(eventId: number, query: HistoryQuery = {}): {
+    events: EventSnapshotRecord[];
+    prices: SelectionPriceRecord[];
+  } {
+    if (!this.db) {
+      return { events: [], prices: [] };
+    }
+
+    const { clause, params } = this.buildRangeClause(query);
+
+    const eventRows = this.db.prepare(
+      `SELECT * FROM event_snapshots WHERE event_id = ?${clause} ORDER BY captured_at ASC, id ASC`
+    ).all(eventId, ...params);
+    const priceRows = this.db.prepare(
+      `SELECT * FROM selection_prices WHERE event_id = ?${clause} ORDER BY captured_at ASC, id ASC`
+    ).all(eventId, ...params);
+
+    return {
+      events: eventRows.map(row => this.mapEventRow(row)),
+      prices: priceRows.map(row => this.mapPriceRow(row))
+    };
+  }
+
+  /**
+   * Record a fired alert
+   */
+  public recordAlert(alert: AlertRecord): void {
+    if (!this.db) {
+      return;
+    }
+
+    try {
+      this.db.prepare(`
+        INSERT INTO alerts (id, rule_id, rule_name, event_id, message, details_json, fired_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        alert.id,
+        alert.ruleId,
+        alert.ruleName,
+        alert.eventId,
+        alert.message,
+        JSON.stringify(alert.details),
+        alert.firedAt.getTime()
+      );
+    } catch (error) {
+      console.error(`Failed to record alert ${alert.id}:`, error);
+    }
+  }
+
+  /**
+   * Recorded alerts, newest first
+   */
+  public getAlerts(query: { from?: Date; to?: Date; eventId?: number; limit?: number } = {}): AlertRecord[] {
+    if (!this.db) {
+      return [];
+    }
+
+    let clause = '';
+    const params: Array<string | number> = [];
+
+    if (query.from) {
+      clause += ' AND fired_at >= ?';
+      params.push(query.from.getTime());
+    }
+    if (query.to) {
+      clause += ' AND fired_at <= ?';
+      params.push(query.to.getTime());
+    }
+    if (query.eventId !== undefined) {
+      clause += ' AND event_id = ?';
+      params.push(query.eventId);
+    }
+
+    const rows = this.db.prepare(
+      `SELECT * FROM alerts WHERE 1 = 1${clause} ORDER BY fired_at DESC LIMIT ?`
+    ).all(...params, query.limit ?? 100);
+
+    return rows.map((row: any) => ({
+      id: row.id,
+      ruleId: row.rule_id,
+      ruleName: row.rule_name,
+      eventId: row.event_id,
+      message: row.message,
+      details: JSON.parse(row.details_json),
+      firedAt: new Date(row.fired_at)
+    }));
+  }
+
+  private buildRangeClause(query: HistoryQuery): { clause: string; params: Array<string | number> } {
+    let clause = '';
+    const params: Array<string | number> = [];
+
+    if (query.from) {
+      clause += ' AND captured_at >= ?';
+      params.push(query.from.getTime());
+    }
+    if (query.to) {
+      clause += ' AND captured_at <= ?';
+      params.push(query.to.getTime());
+    }
+    if (query.source) {
+      clause += ' AND source = ?';
+      params.push(query.source);
+    }
+
+    return { clause, params };
+  }
+
+  private mapEventRow(row: any): EventSnapshotRecord {
+    return {
+      eventId: row.event_id,
+      source: row.source,
+      capturedAt: new Date(row.captured_at),
+      leagueName: row.league_name,
+      regionName: row.region_name,
+      rivals: row.rivals ? JSON.parse(row.rivals) : [],
+      startTime: row.start_time,
+      state: row.state,
+      header: JSON.parse(row.header_json)
+    };
+  }
+
+  private mapPriceRow(row: any): SelectionPriceRecord {
+    return {
+      eventId: row.event_id,
+      source: row.source,
+      capturedAt: new Date(row.captured_at),
+      gameTemplateId: row.game_template_id,
+      marketGroupName: row.market_group_name,
+      marketId: row.market_id,
+      marketName: row.market_name,
+      handicap: row.handicap,
+      overUnder: row.over_under,
+      selectionId: row.selection_id,
+      selectionName: row.selection_name,
+      price: row.price,
+      state: row.state
+    };
+  }
+
+  /**
+   * Close the database
+   */
+  public close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
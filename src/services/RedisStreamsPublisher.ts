@@ -0,0 +1,51 @@
+import Redis from 'ioredis';
+import type { BrokerMessage, BrokerPublisher } from './BrokerPublisher';
+
+/**
+ * Publishes every message with XADD to a Redis stream named after its topic. Entries carry the
+ * fields key, type, payload (JSON) and publishedAt; streams are trimmed to about maxLength entries.
+ */
+export class RedisStreamsPublisher implements BrokerPublisher {
+  public readonly name = 'redis-streams';
+  private redis: Redis;
+
+  constructor(url: string, private readonly maxLength: number) {
+    this.redis = new Redis(url, {
+      maxRetriesPerRequest: 3,
+      retryStrategy: (attempt) => Math.min(attempt * 500, 10000)
+    });
+
+    this.redis.on('ready', () => console.log(`Connected to Redis at ${url}`));
+    this.redis.on('error', (error) => console.error('Redis publisher error:', error.message));
+  }
+
+  public async publish(messages: BrokerMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    // One pipeline per batch keeps the messages of an update in order on a single connection
+    const pipeline = this.redis.pipeline();
+    for (const message of messages) {
+      pipeline.xadd(
+        message.topic,
+        'MAXLEN', '~', String(this.maxLength),
+        '*',
+        'key', message.key,
+        'type', message.type,
+        'payload', JSON.stringify(message.payload),
+        'publishedAt', message.publishedAt
+      );
+    }
+
+    const results = await pipeline.exec();
+    const failed = results?.find(([error]) => error);
+    if (failed) {
+      throw failed[0];
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
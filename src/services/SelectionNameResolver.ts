@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MarketData } from './MeridianbetDataService';
+
+export interface GameTemplateNames {
+  marketName: string;
+  selections: Record<string, string>;
+  variable?: boolean;   // Names differ between events (player props, lines), so they are only used per event
+  updatedAt: string;
+}
+
+/**
+ * Names of offer-feed selections. Every full markets response teaches the names of its event's
+ * selections. Templates whose names are the same for every event also go into a persisted dictionary
+ * keyed by gameTemplateId and selection index, which labels selections of events not seen in full yet.
+ */
+export class SelectionNameResolver {
+  private dictionary: Map<number, GameTemplateNames> = new Map();
+  private eventNames: Map<number, Map<string, string>> = new Map();
+  private readonly EVENT_LIMIT = parseInt(process.env.SELECTION_NAMES_EVENT_LIMIT || '5000');
+  private readonly DICTIONARY_FILE_PATH = process.env.SELECTION_NAMES_PATH || path.join(process.cwd(), 'data', 'selection-names.json');
+  private readonly SAVE_DELAY = 5000;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Load the learned dictionary from disk
+   */
+  public async load(): Promise<void> {
+    try {
+      if (!fs.existsSync(this.DICTIONARY_FILE_PATH)) {
+        console.log('No selection name dictionary found, names will be learned from market responses');
+        return;
+      }
+
+      const fileContent = await fs.promises.readFile(this.DICTIONARY_FILE_PATH, 'utf8');
+      const entries: Record<string, GameTemplateNames> = JSON.parse(fileContent);
+      this.dictionary = new Map(Object.entries(entries).map(([gameTemplateId, names]) => [Number(gameTemplateId), names]));
+      console.log(`Loaded selection names for ${this.dictionary.size} game templates`);
+    } catch (error) {
+      console.error('Failed to load selection name dictionary:', error);
+    }
+  }
+
+  /**
+   * Write the dictionary to disk now
+   */
+  public async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.DICTIONARY_FILE_PATH), { recursive: true });
+      await fs.promises.writeFile(
+        this.DICTIONARY_FILE_PATH,
+        JSON.stringify(Object.fromEntries(this.dictionary), null, 2),
+        'utf8'
+      );
+    } catch (error) {
+      console.error('Failed to save selection name dictionary:', error);
+    }
+  }
+
+  public getDictionary(): Record<number, GameTemplateNames> {
+    return Object.fromEntries(this.dictionary);
+  }
+
+  /**
+   * Learn market and selection names from a full /v2/events/{id}/markets response
+   */
+  public learn(eventId: number, marketGroups: MarketData[]): void {
+    let learned = 0;
+    const names = this.getEventNames(eventId);
+
+    for (const group of marketGroups) {
+      for (const market of group.markets || []) {
+        for (const selection of market.selections || []) {
+          if (selection.name) {
+            names.set(selection.selectionId, selection.name);
+          }
+        }
+      }
+
+      if (!group.gameTemplateId) {
+        continue;
+      }
+
+      let entry = this.dictionary.get(group.gameTemplateId);
+      if (!entry) {
+        entry = { marketName: group.marketName, selections: {}, updatedAt: new Date().toISOString() };
+        this.dictionary.set(group.gameTemplateId, entry);
+      }
+
+      if (entry.variable) {
+        continue;
+      }
+
+      if (group.marketName && entry.marketName !== group.marketName) {
+        entry.marketName = group.marketName;
+        entry.updatedAt = new Date().toISOString();
+      }
+
+      for (const market of group.markets || []) {
+        for (const selection of market.selections || []) {
+          if (entry.variable) {
+            break;
+          }
+
+          const index = this.getSelectionIndex(selection.selectionId);
+          if (index === null || !selection.name || entry.selections[index] === selection.name) {
+            continue;
+          }
+
+          // A second name for the same index means the labels belong to the event or line, not the template
+          if (entry.selections[index] !== undefined) {
+            this.markVariable(group.gameTemplateId);
+            continue;
+          }
+
+          entry.selections[index] = selection.name;
+          entry.updatedAt = new Date().toISOString();
+          learned++;
+        }
+      }
+    }
+
+    if (learned > 0) {
+      console.log(`Learned ${learned} selection names`);
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Stop using the dictionary names of a template whose market names vary per event, e.g. player props
+   */
+  public markVariable(gameTemplateId: number): void {
+    const entry = this.dictionary.get(gameTemplateId);
+    if (entry?.variable) {
+      return;
+    }
+
+    if (entry) {
+      entry.selections = {};
+      entry.variable = true;
+      entry.updatedAt = new Date().toISOString();
+    } else {
+      this.dictionary.set(gameTemplateId, { marketName: '', selections: {}, variable: true, updatedAt: new Date().toISOString() });
+    }
+    console.log(`Game template ${gameTemplateId} has event-specific names, only learning them per event`);
+    this.scheduleSave();
+  }
+
+  /**
+   * Forget the names learned for events that left the offer
+   */
+  public forgetEvents(eventIds: number[]): void {
+    eventIds.forEach(eventId => this.eventNames.delete(eventId));
+  }
+
+  /**
+   * Market group name learned for a game template; the given name wins for templates with variable names
+   */
+  public resolveMarketName(gameTemplateId: number, fallback?: string): string {
+    const entry = this.dictionary.get(gameTemplateId);
+    if (entry?.variable) {
+      return fallback || entry.marketName || 'Unknown Market';
+    }
+    return entry?.marketName || fallback || 'Unknown Market';
+  }
+
+  /**
+   * Selection name for an offer-feed selection: the name learned for the event, else the template's name,
+   * else a guess from the market name
+   */
+  public resolveSelectionName(eventId: number, gameTemplateId: number, selectionId: string, marketName?: string): string {
+    const eventName = this.eventNames.get(eventId)?.get(selectionId);
+    if (eventName) {
+      return eventName;
+    }
+
+    const index = this.getSelectionIndex(selectionId);
+    const entry = this.dictionary.get(gameTemplateId);
+    const learnedName = index !== null && !entry?.variable ? entry?.selections[index] : undefined;
+
+    if (learnedName) {
+      return learnedName;
+    }
+
+    return this.guessSelectionName(index ?? selectionId, marketName);
+  }
+
+  private getEventNames(eventId: number): Map<string, string> {
+    let names = this.eventNames.get(eventId);
+    if (!names) {
+      names = new Map();
+      this.eventNames.set(eventId, names);
+
+      // Maps iterate in insertion order, so the first key is the event learned longest ago
+      if (this.eventNames.size > this.EVENT_LIMIT) {
+        this.eventNames.delete(this.eventNames.keys().next().value!);
+      }
+    }
+    return names;
+  }
+
+  private getSelectionIndex(selectionId: string): string | null {
+    const parts = selectionId.split('_');
+    return parts.length > 1 ? parts[parts.length - 1] : null;
+  }
+
+  /**
+   * Best-effort name for game templates that have not been seen in a full markets response yet
+   */
+  private guessSelectionName(selectionIndex: string, marketName?: string): string {
+    const name = marketName?.toLowerCase() || '';
+
+    if (name.includes('total') || name.includes('over') || name.includes('under')) {
+      switch (selectionIndex) {
+        case '0': return 'Under';
+        case '1': return 'Over';
+      }
+    } else if (name.includes('double chance')) {
+      switch (selectionIndex) {
+        case '0': return '1X';
+        case '1': return '12';
+        case '2': return 'X2';
+      }
+    } else if (name.includes('final score') || name.includes('1x2') || name === '') {
+      switch (selectionIndex) {
+        case '0': return '1';
+        case '1': return 'X';
+        case '2': return '2';
+      }
+    }
+
+    return `Selection ${selectionIndex}`;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, this.SAVE_DELAY);
+  }
+}
@@ -0,0 +1,449 @@
+import WebSocket from 'ws';
+import {
+  EnginePacketType,
+  SocketPacketType,
+  SocketPacket,
+  SocketIoProtocolError,
+  encodeEnginePacket,
+  decodeEnginePacket,
+  parseEngineHandshake,
+  encodeSocketPacket,
+  decodeSocketPacket,
+  reconstructBinaryPacket
+} from './SocketIoProtocol';
+
+export type EventHandler = (...args: any[]) => void;
+export type EventsMap = Record<string, EventHandler>;
+
+/**
+ * Why a connection ended. 'io client disconnect' is the only reason caused by this side on purpose.
+ */
+export type DisconnectReason =
+  | 'io client disconnect'
+  | 'io server disconnect'
+  | 'ping timeout'
+  | 'transport close'
+  | 'transport error'
+  | 'parse error';
+
+/**
+ * The server refused the namespace handshake, e.g. because of an invalid access token
+ */
+export class SocketIoConnectError extends Error {
+  constructor(message: string, public readonly data: unknown) {
+    super(message);
+    this.name = 'SocketIoConnectError';
+  }
+}
+
+export interface SocketIoClientOptions {
+  url: string;                           // ws(s):// URL of the Engine.IO endpoint
+  query?: Record<string, string>;
+  namespace?: string;
+  auth?: Record<string, unknown>;        // Sent with the namespace CONNECT packet
+  connectTimeout?: number;               // Covers the WebSocket open and the namespace handshake
+  ackTimeout?: number;
+  sendPings?: boolean;                   // Also ping the server every pingInterval, for servers that expect client heartbeats
+}
+
+/**
+ * Socket.IO v5 client over a single Engine.IO v4 WebSocket. Handles the Engine.IO open packet,
+ * the namespace handshake, answering server pings (and optionally pinging the server), a liveness
+ * timeout, acknowledgements in both directions, binary attachments and typed event dispatch.
+ * Server events that ask for an acknowledgement are acknowledged after their handlers ran.
+ */
+export class SocketIoClient<ServerEvents extends EventsMap> {
+  private ws: WebSocket | null = null;
+  private engineSessionId: string | null = null;
+  private socketId: string | null = null;
+  private connected = false;
+  private closeReason: DisconnectReason | null = null;
+  private pingInterval = 25000;
+  private pingTimeout = 20000;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private livenessTimer: NodeJS.Timeout | null = null;
+  private handlers: Map<keyof ServerEvents, Set<EventHandler>> = new Map();
+  private pendingAcks: Map<number, { resolve: (args: unknown[]) => void; reject: (error: Error) => void; timer: NodeJS.Timeout }> = new Map();
+  private nextAckId = 0;
+  private pendingBinary: { packet: SocketPacket; attachments: Buffer[] } | null = null;
+  private onDisconnectCallback: ((reason: DisconnectReason) => void) | null = null;
+  private onErrorCallback: ((error: Error) => void) | null = null;
+
+  private readonly namespace: string;
+  private readonly CONNECT_TIMEOUT: number;
+  private readonly ACK_TIMEOUT: number;
+
+  constructor(private options: SocketIoClientOptions) {
+    this.namespace = options.namespace || '/';
+    this.CONNECT_TIMEOUT = options.connectTimeout ?? 10000;
+    this.ACK_TIMEOUT = options.ackTimeout ?? 10000;
+  }
+
+  /**
+   * Set callback for the end of a connection that had completed its handshake
+   */
+  public setDisconnectCallback(callback: (reason: DisconnectReason) => void): void {
+    this.onDisconnectCallback = callback;
+  }
+
+  /**
+   * Set callback for transport errors, protocol errors and errors thrown by event handlers
+   */
+  public setErrorCallback(callback: (error: Error) => void): void {
+    this.onErrorCallback = callback;
+  }
+
+  public on<E extends keyof ServerEvents>(event: E, handler: ServerEvents[E]): void {
+    const handlers = this.handlers.get(event) || new Set();
+    handlers.add(handler);
+    this.handlers.set(event, handlers);
+  }
+
+  public off<E extends keyof ServerEvents>(event: E, handler: ServerEvents[E]): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  public isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Session ID the namespace handshake assigned, or null before it completed
+   */
+  public getSessionId(): string | null {
+    return this.socketId;
+  }
+
+  /**
+   * Open the WebSocket and complete the Engine.IO and namespace handshakes
+   */
+  public connect(): Promise<void> {
+    if (this.ws) {
+      return Promise.reject(new Error('Socket.IO client is already connecting or connected'));
+    }
+
+    const query = new URLSearchParams({ ...this.options.query, EIO: '4', transport: 'websocket' });
+    const ws = new WebSocket(`${this.options.url}?${query.toString()}`);
+    this.ws = ws;
+    this.closeReason = null;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeout);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const timeout = setTimeout(() => {
+        settle(new Error('Socket.IO handshake timeout'));
+        this.terminate('transport close');
+      }, this.CONNECT_TIMEOUT);
+
+      ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+        try {
+          this.handleFrame(Buffer.isBuffer(data) ? data : Buffer.from(data as ArrayBuffer), isBinary, settle);
+        } catch (error) {
+          const protocolError = error instanceof Error ? error : new Error(String(error));
+          console.error('Socket.IO protocol error:', protocolError.message);
+          this.reportError(protocolError);
+          settle(protocolError);
+          if (error instanceof SocketIoProtocolError) {
+            this.terminate('parse error');
+          }
+        }
+      });
+
+      ws.on('error', (error: Error) => {
+        console.error('WebSocket error:', error.message);
+        this.reportError(error);
+        settle(error);
+        this.closeReason = this.closeReason || 'transport error';
+      });
+
+      ws.on('close', (code: number, reason: Buffer) => {
+        console.log(`WebSocket closed: ${code} ${reason.toString()}`);
+        settle(new Error(`WebSocket closed during handshake: ${code}`));
+        this.handleClose(this.closeReason || 'transport close');
+      });
+    });
+  }
+
+  /**
+   * Emit an event to the server
+   */
+  public emit(event: string, ...args: unknown[]): void {
+    this.sendSocketPacket({ type: SocketPacketType.Event, nsp: this.namespace, data: [event, ...args] });
+  }
+
+  /**
+   * Emit an event and wait for the server's acknowledgement
+   */
+  public emitWithAck(event: string, ...args: unknown[]): Promise<unknown[]> {
+    const id = this.nextAckId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingAcks.delete(id);
+        reject(new Error(`No acknowledgement for ${event} within ${this.ACK_TIMEOUT}ms`));
+      }, this.ACK_TIMEOUT);
+
+      this.pendingAcks.set(id, { resolve, reject, timer });
+      this.sendSocketPacket({ type: SocketPacketType.Event, nsp: this.namespace, id, data: [event, ...args] });
+    });
+  }
+
+  /**
+   * Leave the namespace and close the connection on purpose
+   */
+  public close(): void {
+    if (!this.ws) {
+      return;
+    }
+
+    if (this.connected) {
+      this.sendSocketPacket({ type: SocketPacketType.Disconnect, nsp: this.namespace });
+    }
+    this.terminate('io client disconnect');
+  }
+
+  private handleFrame(frame: Buffer, isBinary: boolean, settle: (error?: Error) => void): void {
+    const packet = decodeEnginePacket(isBinary ? frame : frame.toString(), isBinary);
+    this.resetLivenessTimer();
+
+    if (packet.type === 'binary') {
+      this.handleAttachment(packet.data);
+      return;
+    }
+
+    switch (packet.type) {
+      case EnginePacketType.Open: {
+        const handshake = parseEngineHandshake(packet.data);
+        this.engineSessionId = handshake.sid;
+        this.pingInterval = handshake.pingInterval;
+        this.pingTimeout = handshake.pingTimeout;
+        console.log(`Engine.IO session ${this.engineSessionId} opened (ping interval ${this.pingInterval}ms)`);
+
+        this.resetLivenessTimer();
+        if (this.options.sendPings) {
+          this.startPingTimer();
+        }
+        this.sendSocketPacket({ type: SocketPacketType.Connect, nsp: this.namespace, data: this.options.auth }, true);
+        break;
+      }
+
+      case EnginePacketType.Ping:
+        this.send(encodeEnginePacket(EnginePacketType.Pong, packet.data));
+        break;
+
+      case EnginePacketType.Pong:
+        // Answer to our own ping; the liveness timer was already reset
+        break;
+
+      case EnginePacketType.Close:
+        this.terminate('transport close');
+        break;
+
+      case EnginePacketType.Message:
+        this.handleSocketPacket(decodeSocketPacket(packet.data || ''), settle);
+        break;
+
+      default:
+        // Upgrade and noop packets do not apply to a WebSocket-only connection
+        break;
+    }
+  }
+
+  private handleSocketPacket(packet: SocketPacket, settle: (error?: Error) => void): void {
+    if (packet.nsp !== this.namespace) {
+      return;
+    }
+
+    switch (packet.type) {
+      case SocketPacketType.Connect:
+        this.socketId = packet.data?.sid ?? null;
+        this.connected = true;
+        console.log(`Socket.IO namespace ${this.namespace} connected with session ID: ${this.socketId}`);
+        settle();
+        break;
+
+      case SocketPacketType.ConnectError: {
+        const message = typeof packet.data === 'string' ? packet.data : packet.data?.message || 'Connection refused';
+        settle(new SocketIoConnectError(`Socket.IO connection refused: ${message}`, packet.data));
+        this.terminate('io server disconnect');
+        break;
+      }
+
+      case SocketPacketType.Disconnect:
+        console.log(`Server closed Socket.IO namespace ${this.namespace}`);
+        this.terminate('io server disconnect');
+        break;
+
+      case SocketPacketType.Event:
+        this.dispatchEvent(packet);
+        break;
+
+      case SocketPacketType.Ack:
+        this.resolveAck(packet);
+        break;
+
+      case SocketPacketType.BinaryEvent:
+      case SocketPacketType.BinaryAck:
+        this.pendingBinary = { packet, attachments: [] };
+        if (!packet.attachments) {
+          this.handleBinaryComplete();
+        }
+        break;
+    }
+  }
+
+  private handleAttachment(data: Buffer): void {
+    if (!this.pendingBinary) {
+      throw new SocketIoProtocolError('Binary frame without a pending binary packet', `<${data.length} bytes>`);
+    }
+
+    this.pendingBinary.attachments.push(data);
+    if (this.pendingBinary.attachments.length === this.pendingBinary.packet.attachments) {
+      this.handleBinaryComplete();
+    }
+  }
+
+  private handleBinaryComplete(): void {
+    const { packet, attachments } = this.pendingBinary!;
+    this.pendingBinary = null;
+
+    const reconstructed = reconstructBinaryPacket(packet, attachments);
+    if (reconstructed.type === SocketPacketType.Event) {
+      this.dispatchEvent(reconstructed);
+    } else {
+      this.resolveAck(reconstructed);
+    }
+  }
+
+  private dispatchEvent(packet: SocketPacket): void {
+    const [event, ...args] = packet.data as [string, ...unknown[]];
+    const handlers = this.handlers.get(event);
+
+    if (!handlers || handlers.size === 0) {
+      console.log(`No handler for Socket.IO event: ${event}`);
+    } else {
+      handlers.forEach(handler => {
+        try {
+          handler(...args);
+        } catch (error) {
+          console.error(`Error in handler for Socket.IO event ${event}:`, error);
+          this.reportError(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    }
+
+    if (packet.id !== undefined) {
+      this.sendSocketPacket({ type: SocketPacketType.Ack, nsp: this.namespace, id: packet.id, data: [] });
+    }
+  }
+
+  private resolveAck(packet: SocketPacket): void {
+    const pending = packet.id !== undefined ? this.pendingAcks.get(packet.id) : undefined;
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingAcks.delete(packet.id!);
+    pending.resolve(packet.data);
+  }
+
+  private sendSocketPacket(packet: SocketPacket, duringHandshake = false): void {
+    if (!duringHandshake && !this.connected) {
+      console.error('Cannot send Socket.IO packet: namespace not connected');
+      return;
+    }
+    this.send(encodeEnginePacket(EnginePacketType.Message, encodeSocketPacket(packet)));
+  }
+
+  private send(frame: string): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(frame);
+    }
+  }
+
+  private startPingTimer(): void {
+    this.clearPingTimer();
+    this.pingTimer = setInterval(() => this.send(encodeEnginePacket(EnginePacketType.Ping)), this.pingInterval);
+  }
+
+  private clearPingTimer(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+
+  /**
+   * The server pings every pingInterval; a connection silent for longer than pingInterval + pingTimeout is dead
+   */
+  private resetLivenessTimer(): void {
+    if (this.livenessTimer) {
+      clearTimeout(this.livenessTimer);
+    }
+    this.livenessTimer = setTimeout(() => {
+      console.warn(`No packet from the server within ${this.pingInterval + this.pingTimeout}ms, closing connection`);
+      this.terminate('ping timeout');
+    }, this.pingInterval + this.pingTimeout);
+  }
+
+  /**
+   * Close the WebSocket, remembering why; the close event finishes the cleanup
+   */
+  private terminate(reason: DisconnectReason): void {
+    if (!this.ws) {
+      return;
+    }
+
+    this.closeReason = this.closeReason || reason;
+    const ws = this.ws;
+    if (reason === 'ping timeout' || reason === 'parse error' || ws.readyState === WebSocket.CONNECTING) {
+      ws.terminate();
+    } else {
+      ws.close();
+    }
+  }
+
+  private handleClose(reason: DisconnectReason): void {
+    const wasConnected = this.connected;
+
+    this.ws = null;
+    this.connected = false;
+    this.socketId = null;
+    this.engineSessionId = null;
+    this.pendingBinary = null;
+    this.clearPingTimer();
+    if (this.livenessTimer) {
+      clearTimeout(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+
+    this.pendingAcks.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error(`Connection closed: ${reason}`));
+    });
+    this.pendingAcks.clear();
+
+    if (wasConnected && this.onDisconnectCallback) {
+      this.onDisconnectCallback(reason);
+    }
+  }
+
+  private reportError(error: Error): void {
+    if (this.onErrorCallback) {
+      this.onErrorCallback(error);
+    }
+  }
+}
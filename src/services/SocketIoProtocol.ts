@@ -0,0 +1,218 @@
+/**
+ * Engine.IO v4 and Socket.IO v5 packet encoding and decoding. Kept free of I/O so every frame the
+ * live WebSocket sends or receives goes through one place.
+ *
+ * Engine.IO frame:  <type>[data]                                   e.g. 0{"sid":"..."} / 2 / 3 / 4<socket.io packet>
+ * Socket.IO packet: <type>[<attachments>-][<namespace>,][<ack id>][<JSON data>]   e.g. 40 / 42["event","payload"] / 4312[]
+ */
+
+export enum EnginePacketType {
+  Open = '0',
+  Close = '1',
+  Ping = '2',
+  Pong = '3',
+  Message = '4',
+  Upgrade = '5',
+  Noop = '6'
+}
+
+export enum SocketPacketType {
+  Connect = 0,
+  Disconnect = 1,
+  Event = 2,
+  Ack = 3,
+  ConnectError = 4,
+  BinaryEvent = 5,
+  BinaryAck = 6
+}
+
+export type EnginePacket =
+  | { type: EnginePacketType; data?: string }
+  | { type: 'binary'; data: Buffer };  // Binary frames carry Socket.IO attachments
+
+export interface EngineHandshake {
+  sid: string;
+  upgrades: string[];
+  pingInterval: number;
+  pingTimeout: number;
+  maxPayload?: number;
+}
+
+export interface SocketPacket {
+  type: SocketPacketType;
+  nsp: string;
+  id?: number;
+  data?: any;
+  attachments?: number;
+}
+
+/**
+ * A frame that does not follow the Engine.IO or Socket.IO protocol
+ */
+export class SocketIoProtocolError extends Error {
+  constructor(message: string, public readonly frame: string) {
+    super(message);
+    this.name = 'SocketIoProtocolError';
+  }
+}
+
+const ENGINE_PACKET_TYPES = new Set<string>(Object.values(EnginePacketType));
+
+export function encodeEnginePacket(type: EnginePacketType, data?: string): string {
+  return data === undefined ? type : `${type}${data}`;
+}
+
+export function decodeEnginePacket(frame: string | Buffer, isBinary = false): EnginePacket {
+  if (isBinary) {
+    return { type: 'binary', data: Buffer.isBuffer(frame) ? frame : Buffer.from(frame) };
+  }
+
+  const text = frame.toString();
+  const type = text.charAt(0);
+  if (!ENGINE_PACKET_TYPES.has(type)) {
+    throw new SocketIoProtocolError(`Unknown Engine.IO packet type "${type}"`, text);
+  }
+
+  return text.length > 1
+    ? { type: type as EnginePacketType, data: text.substring(1) }
+    : { type: type as EnginePacketType };
+}
+
+/**
+ * Parse the data of an Engine.IO open packet
+ */
+export function parseEngineHandshake(data: string | undefined): EngineHandshake {
+  let handshake: any;
+  try {
+    handshake = JSON.parse(data || '');
+  } catch (error) {
+    throw new SocketIoProtocolError('Engine.IO open packet is not valid JSON', `0${data || ''}`);
+  }
+
+  if (!handshake || typeof handshake.sid !== 'string') {
+    throw new SocketIoProtocolError('Engine.IO open packet has no sid', `0${data || ''}`);
+  }
+
+  return {
+    sid: handshake.sid,
+    upgrades: Array.isArray(handshake.upgrades) ? handshake.upgrades : [],
+    pingInterval: typeof handshake.pingInterval === 'number' ? handshake.pingInterval : 25000,
+    pingTimeout: typeof handshake.pingTimeout === 'number' ? handshake.pingTimeout : 20000,
+    maxPayload: typeof handshake.maxPayload === 'number' ? handshake.maxPayload : undefined
+  };
+}
+
+export function encodeSocketPacket(packet: SocketPacket): string {
+  let text = String(packet.type);
+
+  if (packet.type === SocketPacketType.BinaryEvent || packet.type === SocketPacketType.BinaryAck) {
+    text += `${packet.attachments || 0}-`;
+  }
+  if (packet.nsp && packet.nsp !== '/') {
+    text += `${packet.nsp},`;
+  }
+  if (packet.id !== undefined) {
+    text += packet.id;
+  }
+  if (packet.data !== undefined) {
+    text += JSON.stringify(packet.data);
+  }
+
+  return text;
+}
+
+export function decodeSocketPacket(text: string): SocketPacket {
+  let index = 0;
+  const type = Number(text.charAt(index));
+
+  if (text.length === 0 || !(type in SocketPacketType)) {
+    throw new SocketIoProtocolError(`Unknown Socket.IO packet type "${text.charAt(0)}"`, text);
+  }
+
+  const packet: SocketPacket = { type, nsp: '/' };
+
+  if (type === SocketPacketType.BinaryEvent || type === SocketPacketType.BinaryAck) {
+    const dash = text.indexOf('-', index + 1);
+    const attachments = text.substring(index + 1, dash);
+    if (dash === -1 || !/^\d+$/.test(attachments)) {
+      throw new SocketIoProtocolError('Binary packet without attachment count', text);
+    }
+    packet.attachments = parseInt(attachments);
+    index = dash;
+  }
+
+  if (text.charAt(index + 1) === '/') {
+    const comma = text.indexOf(',', index + 1);
+    const end = comma === -1 ? text.length : comma;
+    packet.nsp = text.substring(index + 1, end);
+    index = end;
+  }
+
+  const idMatch = /^\d+/.exec(text.substring(index + 1));
+  if (idMatch) {
+    packet.id = parseInt(idMatch[0]);
+    index += idMatch[0].length;
+  }
+
+  const payload = text.substring(index + 1);
+  if (payload.length > 0) {
+    try {
+      packet.data = JSON.parse(payload);
+    } catch (error) {
+      throw new SocketIoProtocolError('Socket.IO packet data is not valid JSON', text);
+    }
+  }
+
+  if (!isValidPayload(packet)) {
+    throw new SocketIoProtocolError(`Invalid payload for Socket.IO packet type ${SocketPacketType[type]}`, text);
+  }
+
+  return packet;
+}
+
+/**
+ * Replace the {"_placeholder":true,"num":n} markers of a binary packet with its attachments
+ */
+export function reconstructBinaryPacket(packet: SocketPacket, attachments: Buffer[]): SocketPacket {
+  const replace = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(replace);
+    }
+    if (value && typeof value === 'object') {
+      if (value._placeholder === true && typeof value.num === 'number') {
+        if (value.num >= attachments.length) {
+          throw new SocketIoProtocolError(`Missing binary attachment ${value.num}`, JSON.stringify(packet.data));
+        }
+        return attachments[value.num];
+      }
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replace(item)]));
+    }
+    return value;
+  };
+
+  return {
+    type: packet.type === SocketPacketType.BinaryEvent ? SocketPacketType.Event : SocketPacketType.Ack,
+    nsp: packet.nsp,
+    id: packet.id,
+    data: replace(packet.data)
+  };
+}
+
+function isValidPayload(packet: SocketPacket): boolean {
+  switch (packet.type) {
+    case SocketPacketType.Connect:
+      return packet.data === undefined || (typeof packet.data === 'object' && packet.data !== null);
+    case SocketPacketType.Disconnect:
+      return packet.data === undefined;
+    case SocketPacketType.ConnectError:
+      return typeof packet.data === 'string' || (typeof packet.data === 'object' && packet.data !== null);
+    case SocketPacketType.Event:
+    case SocketPacketType.BinaryEvent:
+      return Array.isArray(packet.data) && packet.data.length > 0 && typeof packet.data[0] === 'string';
+    case SocketPacketType.Ack:
+    case SocketPacketType.BinaryAck:
+      return Array.isArray(packet.data);
+    default:
+      return false;
+  }
+}
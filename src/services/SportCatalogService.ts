@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BetshopHttpClient } from './BetshopHttpClient';
+import type { RawEventHeader } from './MeridianbetDataService';
+
+export interface SportEntry {
+  sportId: number;
+  name: string;
+  slug: string;
+  source: 'builtin' | 'discovered';
+  lastSeenAt: string | null;
+}
+
+/**
+ * Sports known before any discovery ran; the catalog keeps them so extraction works on a cold start
+ */
+const BUILTIN_SPORTS: Array<Pick<SportEntry, 'sportId' | 'name' | 'slug'>> = [
+  { sportId: 58, name: 'Football', slug: 'football' },
+  { sportId: 55, name: 'Basketball', slug: 'basketball' },
+  { sportId: 56, name: 'Tennis', slug: 'tennis' }
+];
+
+/**
+ * Sport as listed by the pre-game sports endpoint
+ */
+interface RawSport {
+  sportId?: number;
+  id?: number;
+  name?: string;
+  sportName?: string;
+  slug?: string;
+}
+
+/**
+ * Catalog of sports offered upstream. Sports are discovered from the all-sports live events listing
+ * and the pre-game sports listing, learned from the event headers of live updates, and cached on
+ * disk.
+ */
+export class SportCatalogService {
+  private sports: Map<number, SportEntry> = new Map();
+  private readonly CATALOG_FILE_PATH = process.env.SPORT_CATALOG_PATH || path.join(process.cwd(), 'data', 'sports.json');
+  private readonly DISCOVERY_URL = process.env.SPORT_CATALOG_URL || '/v2/live/sport/events?sorting=TOP_LEAGUES';
+  // Not verified against the upstream yet; an empty value turns pre-game discovery off
+  private readonly PREGAME_DISCOVERY_URL = process.env.SPORT_CATALOG_PREGAME_URL ?? '/v1/standard/sports?time=ALL';
+  private readonly REFRESH_INTERVAL = parseInt(process.env.SPORT_CATALOG_REFRESH_INTERVAL || '3600000'); // 1 hour default
+  private readonly SAVE_DELAY = 5000;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private httpClient: BetshopHttpClient) {
+    for (const sport of BUILTIN_SPORTS) {
+      this.sports.set(sport.sportId, { ...sport, source: 'builtin', lastSeenAt: null });
+    }
+  }
+
+  /**
+   * Load the cached catalog from disk
+   */
+  public async load(): Promise<void> {
+    try {
+      if (!fs.existsSync(this.CATALOG_FILE_PATH)) {
+        return;
+      }
+
+      const fileContent = await fs.promises.readFile(this.CATALOG_FILE_PATH, 'utf8');
+      const sports: SportEntry[] = JSON.parse(fileContent);
+      sports.forEach(sport => this.sports.set(sport.sportId, sport));
+      console.log(`Loaded ${sports.length} sports from catalog cache`);
+    } catch (error) {
+      console.error('Failed to load sport catalog:', error);
+    }
+  }
+
+  /**
+   * Write the catalog to disk now
+   */
+  public async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.CATALOG_FILE_PATH), { recursive: true });
+      await fs.promises.writeFile(this.CATALOG_FILE_PATH, JSON.stringify(this.getSports(), null, 2), 'utf8');
+    } catch (error) {
+      console.error('Failed to save sport catalog:', error);
+    }
+  }
+
+  /**
+   * Run discovery now and then periodically
+   */
+  public async startDiscovery(): Promise<void> {
+    await this.discover();
+
+    if (!this.refreshTimer) {
+      this.refreshTimer = setInterval(() => this.discover(), this.REFRESH_INTERVAL);
+    }
+  }
+
+  public async close(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    await this.save();
+  }
+
+  public getSports(): SportEntry[] {
+    return Array.from(this.sports.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Look a sport up by slug, name or numeric ID
+   */
+  public getSport(sport: string | number): SportEntry | undefined {
+    const key = String(sport).toLowerCase();
+    if (/^\d+$/.test(key)) {
+      return this.sports.get(parseInt(key));
+    }
+    return Array.from(this.sports.values()).find(entry => entry.slug === key || entry.name.toLowerCase() === key);
+  }
+
+  /**
+   * Resolve a sport to its upstream ID, throwing for sports the catalog does not know
+   */
+  public getSportId(sport: string | number): number {
+    const entry = this.getSport(sport);
+    if (!entry) {
+      throw new Error(`Unknown sport: ${sport}`);
+    }
+    return entry.sportId;
+  }
+
+  /**
+   * Record the sports of event headers seen in upstream responses and live updates
+   */
+  public learnFromHeaders(headers: Array<Pick<RawEventHeader, 'sport'>>): void {
+    this.learnSports(headers.map(header => header.sport));
+  }
+
+  private learnSports(sports: Array<{ sportId: number; name: string; slug?: string } | null | undefined>): void {
+    let added = 0;
+
+    for (const sport of sports) {
+      if (!sport?.sportId || !sport.name) {
+        continue;
+      }
+
+      const existing = this.sports.get(sport.sportId);
+      if (!existing) {
+        console.log(`Discovered sport ${sport.name} (ID: ${sport.sportId})`);
+        added++;
+      }
+
+      this.sports.set(sport.sportId, {
+        sportId: sport.sportId,
+        name: sport.name,
+        slug: sport.slug || existing?.slug || sport.name.toLowerCase().replace(/\s+/g, '-'),
+        source: existing?.source || 'discovered',
+        lastSeenAt: new Date().toISOString()
+      });
+    }
+
+    if (added > 0) {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Learn sports from the all-sports live events listing and the pre-game sports listing. Sports
+   * with pre-game offer but no live match right now are only found by the latter.
+   */
+  private async discover(): Promise<void> {
+    await Promise.all([this.discoverLive(), this.discoverPreGame()]);
+    console.log(`Sport discovery finished, catalog has ${this.sports.size} sports`);
+  }
+
+  private async discoverLive(): Promise<void> {
+    try {
+      const data = await this.httpClient.getJson<{ payload: { events?: Array<{ header: RawEventHeader }> } | null }>(this.DISCOVERY_URL);
+
+      const events: Array<{ header: RawEventHeader }> = data.payload?.events || [];
+      this.learnFromHeaders(events.map(event => event.header));
+    } catch (error) {
+      console.error('Live sport discovery failed, keeping cached catalog:', error);
+    }
+  }
+
+  private async discoverPreGame(): Promise<void> {
+    if (!this.PREGAME_DISCOVERY_URL) {
+      return;
+    }
+
+    try {
+      const data = await this.httpClient.getJson<{ payload: RawSport[] | { sports?: RawSport[] } | null }>(this.PREGAME_DISCOVERY_URL);
+
+      const sports = Array.isArray(data.payload) ? data.payload : data.payload?.sports || [];
+      this.learnSports(sports.map(sport => ({
+        sportId: sport.sportId ?? sport.id ?? 0,
+        name: sport.name ?? sport.sportName ?? '',
+        slug: sport.slug
+      })));
+    } catch (error) {
+      console.error('Pre-game sport discovery failed, keeping cached catalog:', error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, this.SAVE_DELAY);
+  }
+}
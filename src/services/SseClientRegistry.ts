@@ -0,0 +1,247 @@
+import { randomUUID } from 'crypto';
+import type { Response } from 'express';
+import type { RawEventHeader, MarketData } from './MeridianbetDataService';
+import { SportCatalogService } from './SportCatalogService';
+
+/**
+ * What an SSE client subscribed to; null means no restriction
+ */
+export interface SseClientFilter {
+  sportId: number | null;
+  leagueIds: Set<number> | null;
+  eventIds: Set<number> | null;
+  marketTypes: Set<string> | null;  // Lower-cased gameTemplateIds, market group names or upstream market types
+}
+
+export interface SseClient {
+  id: string;
+  username: string;
+  res: Response;
+  filter: SseClientFilter;
+  connectedAt: Date;
+  resyncPending: boolean;  // Fell behind on live patches, waiting for the socket to drain
+}
+
+export interface SseClientInfo {
+  id: string;
+  username: string;
+  connectedAt: string;
+  resyncPending: boolean;
+  filter: {
+    sportId: number | null;
+    leagueIds: number[] | null;
+    eventIds: number[] | null;
+    marketTypes: string[] | null;
+  };
+}
+
+/**
+ * Connected SSE clients with their subscription filters. Clients are removed when their connection
+ * closes or a write fails, and every stream gets a heartbeat comment so idle connections are not
+ * dropped by proxies.
+ */
+export class SseClientRegistry {
+  private clients: Map<string, SseClient> = new Map();
+  private readonly HEARTBEAT_INTERVAL = parseInt(process.env.SSE_HEARTBEAT_INTERVAL || '15000');
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(private sportCatalog: SportCatalogService) { }
+
+  /**
+   * Build a filter from the stream's query parameters. List parameters accept comma-separated values or repeats.
+   */
+  public parseFilter(query: Record<string, unknown>): SseClientFilter {
+    let sportId: number | null = null;
+    if (query.sport !== undefined && query.sport !== '') {
+      const sport = this.sportCatalog.getSport(String(query.sport));
+      if (!sport) {
+        throw new Error(`Unknown sport: ${query.sport}`);
+      }
+      sportId = sport.sportId;
+    }
+
+    const marketTypes = this.parseList(query.marketTypes);
+
+    return {
+      sportId,
+      leagueIds: this.parseIdList(query.leagueIds, 'leagueIds'),
+      eventIds: this.parseIdList(query.eventIds, 'eventIds'),
+      marketTypes: marketTypes ? new Set(marketTypes.map(type => type.toLowerCase())) : null
+    };
+  }
+
+  /**
+   * Register a client on an open SSE response; it is removed again when the connection closes
+   */
+  public register(res: Response, username: string, filter: SseClientFilter): SseClient {
+    const client: SseClient = {
+      id: randomUUID(),
+      username,
+      res,
+      filter,
+      connectedAt: new Date(),
+      resyncPending: false
+    };
+
+    this.clients.set(client.id, client);
+    res.on('close', () => this.remove(client.id));
+    this.startHeartbeat();
+
+    console.log(`SSE client connected: ${client.id} (${username}), ${this.clients.size} connected`);
+    return client;
+  }
+
+  public remove(clientId: string): void {
+    if (!this.clients.delete(clientId)) {
+      return;
+    }
+
+    console.log(`SSE client disconnected: ${clientId}, ${this.clients.size} connected`);
+    if (this.clients.size === 0) {
+      this.stopHeartbeat();
+    }
+  }
+
+  public getClients(): SseClient[] {
+    return Array.from(this.clients.values());
+  }
+
+  public getClientInfo(): SseClientInfo[] {
+    return this.getClients().map(client => ({
+      id: client.id,
+      username: client.username,
+      connectedAt: client.connectedAt.toISOString(),
+      resyncPending: client.resyncPending,
+      filter: {
+        sportId: client.filter.sportId,
+        leagueIds: client.filter.leagueIds ? Array.from(client.filter.leagueIds) : null,
+        eventIds: client.filter.eventIds ? Array.from(client.filter.eventIds) : null,
+        marketTypes: client.filter.marketTypes ? Array.from(client.filter.marketTypes) : null
+      }
+    }));
+  }
+
+  /**
+   * Write a raw SSE frame, dropping the client when its connection is gone
+   */
+  public write(client: SseClient, message: string): void {
+    if (client.res.destroyed) {
+      this.remove(client.id);
+      return;
+    }
+
+    try {
+      client.res.write(message);
+    } catch (error) {
+      console.error(`Error sending SSE message to ${client.id}:`, error);
+      this.remove(client.id);
+    }
+  }
+
+  public isFiltered(filter: SseClientFilter): boolean {
+    return filter.sportId !== null || !!filter.leagueIds || !!filter.eventIds || !!filter.marketTypes;
+  }
+
+  /**
+   * Whether an event passes the client's sport, league and event filters. Events whose header is
+   * unknown are only checked against the event IDs.
+   */
+  public matchesEvent(filter: SseClientFilter, eventId: number, header?: Pick<RawEventHeader, 'sport' | 'league'>): boolean {
+    if (filter.eventIds && !filter.eventIds.has(eventId)) {
+      return false;
+    }
+    if (filter.sportId !== null && header?.sport && header.sport.sportId !== filter.sportId) {
+      return false;
+    }
+    if (filter.leagueIds && header?.league && !filter.leagueIds.has(header.league.leagueId)) {
+      return false;
+    }
+    return true;
+  }
+
+  public matchesMarketGroup(filter: SseClientFilter, group: Pick<MarketData, 'gameTemplateId' | 'marketName' | 'marketType'>): boolean {
+    if (!filter.marketTypes) {
+      return true;
+    }
+    return filter.marketTypes.has(String(group.gameTemplateId))
+      || (!!group.marketName && filter.marketTypes.has(group.marketName.toLowerCase()))
+      || (!!group.marketType && filter.marketTypes.has(group.marketType.toLowerCase()));
+  }
+
+  /**
+   * Keep the events matching the filter and, for each, the market groups matching its market types
+   */
+  public filterEvents<T extends { header: RawEventHeader }>(
+    filter: SseClientFilter,
+    events: T[],
+    markets: Record<number, MarketData[]>
+  ): { events: T[]; markets: Record<number, MarketData[]> } {
+    const matchingEvents = events.filter(event => this.matchesEvent(filter, event.header.eventId, event.header));
+    const matchingMarkets: Record<number, MarketData[]> = {};
+
+    for (const event of matchingEvents) {
+      const eventMarkets = markets[event.header.eventId];
+      if (eventMarkets) {
+        matchingMarkets[event.header.eventId] = eventMarkets.filter(group => this.matchesMarketGroup(filter, group));
+      }
+    }
+
+    return { events: matchingEvents, markets: matchingMarkets };
+  }
+
+  /**
+   * End every stream, e.g. on shutdown
+   */
+  public close(): void {
+    this.stopHeartbeat();
+    this.clients.forEach(client => client.res.end());
+    this.clients.clear();
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      // SSE comment lines are ignored by EventSource but keep the connection active
+      this.clients.forEach(client => this.write(client, `: heartbeat ${Date.now()}\n\n`));
+    }, this.HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private parseList(value: unknown): string[] | null {
+    if (value === undefined || value === '') {
+      return null;
+    }
+
+    const values = (Array.isArray(value) ? value : [value])
+      .flatMap(item => String(item).split(','))
+      .map(item => item.trim())
+      .filter(item => item.length > 0);
+
+    return values.length > 0 ? values : null;
+  }
+
+  private parseIdList(value: unknown, name: string): Set<number> | null {
+    const values = this.parseList(value);
+    if (!values) {
+      return null;
+    }
+
+    const ids = values.map(item => {
+      if (!/^\d+$/.test(item)) {
+        throw new Error(`${name} must be a comma-separated list of numeric IDs`);
+      }
+      return parseInt(item);
+    });
+
+    return new Set(ids);
+  }
+}
@@ -0,0 +1,291 @@
+type FieldType = 'number' | 'string' | 'boolean' | 'array' | 'object' | 'any';
+
+interface FieldSpec {
+  type: FieldType;
+  optional?: boolean;
+  nullable?: boolean;
+  schema?: ObjectSchema;
+  items?: FieldSpec;
+}
+
+type ObjectSchema = Record<string, FieldSpec>;
+
+export type UpstreamPayloadType = 'leagues' | 'markets' | 'live-events' | 'single-event-update' | 'offer-feed-update-live';
+
+export interface ValidationIssue {
+  kind: 'unexpected-field' | 'missing-field' | 'type-mismatch';
+  payload: UpstreamPayloadType;
+  path: string;
+  count: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  sample: string;
+}
+
+const SPORT: ObjectSchema = {
+  sportId: { type: 'number' },
+  name: { type: 'string' },
+  slug: { type: 'string' }
+};
+
+const REGION: ObjectSchema = {
+  regionId: { type: 'number' },
+  name: { type: 'string' },
+  slug: { type: 'string' }
+};
+
+const LEAGUE: ObjectSchema = {
+  leagueId: { type: 'number' },
+  name: { type: 'string' },
+  slug: { type: 'string' },
+  favoriteLeague: { type: 'boolean' }
+};
+
+const EVENT_HEADER: ObjectSchema = {
+  eventId: { type: 'number' },
+  code: { type: 'string', optional: true, nullable: true },
+  offerType: { type: 'string', optional: true, nullable: true },
+  offerSubType: { type: 'string', optional: true, nullable: true },
+  startTime: { type: 'number', optional: true, nullable: true },
+  state: { type: 'string', optional: true, nullable: true },
+  sport: { type: 'object', optional: true, nullable: true, schema: SPORT },
+  region: { type: 'object', optional: true, nullable: true, schema: REGION },
+  league: { type: 'object', optional: true, nullable: true, schema: LEAGUE },
+  result: {
+    type: 'object', optional: true, nullable: true, schema: {
+      periods: { type: 'array', items: { type: 'any' } },
+      extraData: { type: 'any', optional: true, nullable: true }
+    }
+  },
+  formattedResult: {
+    type: 'object', optional: true, nullable: true, schema: {
+      periodScores: { type: 'array', items: { type: 'any' } },
+      redCards: { type: 'array', optional: true, nullable: true, items: { type: 'number' } },
+      yellowCards: { type: 'array', optional: true, nullable: true, items: { type: 'number' } }
+    }
+  },
+  matchTime: { type: 'string', optional: true, nullable: true },
+  rivals: { type: 'array', optional: true, nullable: true, items: { type: 'string' } },
+  rivalsSlug: { type: 'string', optional: true, nullable: true },
+  periodDuration: { type: 'string', optional: true, nullable: true },
+  topMatch: { type: 'boolean', optional: true },
+  setEventOrder: { type: 'number', optional: true, nullable: true },
+  numberOfVisibleSelections: { type: 'number', optional: true, nullable: true },
+  hasEarlyPayout: { type: 'boolean', optional: true }
+};
+
+const SELECTION: ObjectSchema = {
+  selectionId: { type: 'string' },
+  price: { type: 'number' },
+  state: { type: 'string' },
+  name: { type: 'string' }
+};
+
+const MARKET: ObjectSchema = {
+  name: { type: 'string' },
+  selections: { type: 'array', items: { type: 'object', schema: SELECTION } },
+  marketId: { type: 'number' },
+  state: { type: 'string' },
+  overUnder: { type: 'number', optional: true, nullable: true },
+  handicap: { type: 'number', optional: true, nullable: true },
+  isEarlyPayout: { type: 'boolean' }
+};
+
+const MARKET_GROUP: ObjectSchema = {
+  markets: { type: 'array', items: { type: 'object', schema: MARKET } },
+  gameTemplateId: { type: 'number' },
+  marketName: { type: 'string' },
+  priority: { type: 'number' },
+  marketType: { type: 'string' },
+  hasEarlyPayout: { type: 'boolean' },
+  favorite: { type: 'boolean' }
+};
+
+const OFFER_POSITION: ObjectSchema = {
+  index: { type: 'number' },
+  groups: {
+    type: 'array', items: {
+      type: 'object', schema: {
+        selections: {
+          type: 'array', optional: true, nullable: true, items: {
+            type: 'object', schema: {
+              selectionId: { type: 'string' },
+              state: { type: 'string' },
+              price: { type: 'number' },
+              marketId: { type: 'number' },
+              gameTemplateId: { type: 'number' },
+              placeholder: { type: 'boolean' }
+            }
+          }
+        },
+        overUnder: { type: 'number', optional: true, nullable: true },
+        name: { type: 'string', optional: true, nullable: true },
+        containsTemplateWithVariableMarketName: { type: 'boolean' },
+        earlyPayoutMarket: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+const EVENT: ObjectSchema = {
+  header: { type: 'object', schema: EVENT_HEADER },
+  positions: { type: 'array', optional: true, nullable: true, items: { type: 'object', schema: OFFER_POSITION } }
+};
+
+const ENVELOPE: ObjectSchema = {
+  errorCode: { type: 'string', nullable: true },
+  parameters: { type: 'any', optional: true, nullable: true },
+  errorMessages: { type: 'array', nullable: true, items: { type: 'string' } }
+};
+
+const SCHEMAS: Record<UpstreamPayloadType, FieldSpec> = {
+  'leagues': {
+    type: 'object', schema: {
+      ...ENVELOPE,
+      payload: {
+        type: 'object', schema: {
+          usedTimeFilter: { type: 'any', nullable: true },
+          firstAvailableTimeFilter: { type: 'any', nullable: true },
+          page: { type: 'number' },
+          leagues: {
+            type: 'array', items: {
+              type: 'object', schema: {
+                regionId: { type: 'number' },
+                regionName: { type: 'string' },
+                regionSlug: { type: 'string' },
+                leagueId: { type: 'number' },
+                leagueName: { type: 'string' },
+                leagueSlug: { type: 'string' },
+                favoriteLeague: { type: 'boolean' },
+                events: { type: 'array', items: { type: 'object', schema: EVENT } }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  'markets': {
+    type: 'object', schema: {
+      ...ENVELOPE,
+      payload: { type: 'array', nullable: true, items: { type: 'object', schema: MARKET_GROUP } }
+    }
+  },
+  'live-events': {
+    type: 'object', schema: {
+      ...ENVELOPE,
+      payload: {
+        type: 'object', nullable: true, schema: {
+          events: { type: 'array', items: { type: 'object', schema: EVENT } }
+        }
+      }
+    }
+  },
+  'single-event-update': {
+    type: 'object', schema: {
+      header: { type: 'object', schema: EVENT_HEADER },
+      games: { type: 'array', items: { type: 'object', schema: MARKET_GROUP } }
+    }
+  },
+  'offer-feed-update-live': {
+    type: 'object', schema: {
+      header: { type: 'object', schema: EVENT_HEADER },
+      positions: { type: 'array', items: { type: 'object', schema: OFFER_POSITION } }
+    }
+  }
+};
+
+export class UpstreamValidator {
+  private issues: Map<string, ValidationIssue> = new Map();
+  private readonly MAX_ARRAY_ITEMS = 50;
+
+  /**
+   * Check a raw upstream payload against the known schema and record every deviation.
+   * Returns the number of issues found in this payload.
+   */
+  public validate(payloadType: UpstreamPayloadType, payload: unknown): number {
+    let found = 0;
+    this.check(payload, SCHEMAS[payloadType], payloadType, payloadType, () => found++);
+    return found;
+  }
+
+  /**
+   * All recorded issues, most frequent first
+   */
+  public getReport(): ValidationIssue[] {
+    return Array.from(this.issues.values()).sort((a, b) => b.count - a.count);
+  }
+
+  public clearReport(): void {
+    this.issues.clear();
+  }
+
+  private check(value: unknown, spec: FieldSpec, path: string, payload: UpstreamPayloadType, onIssue: () => void): void {
+    if (value === null) {
+      if (!spec.nullable) {
+        this.record('type-mismatch', payload, path, `expected ${spec.type}, got null`, onIssue);
+      }
+      return;
+    }
+
+    if (spec.type === 'any') {
+      return;
+    }
+
+    const actual = Array.isArray(value) ? 'array' : typeof value;
+    if (actual !== spec.type) {
+      this.record('type-mismatch', payload, path, `expected ${spec.type}, got ${actual}`, onIssue);
+      return;
+    }
+
+    if (spec.type === 'array' && spec.items) {
+      // Array items share a shape, so a bounded sample is enough to spot deviations
+      (value as unknown[]).slice(0, this.MAX_ARRAY_ITEMS).forEach(item => {
+        this.check(item, spec.items!, `${path}[]`, payload, onIssue);
+      });
+      return;
+    }
+
+    if (spec.type === 'object' && spec.schema) {
+      const record = value as Record<string, unknown>;
+
+      for (const [field, fieldSpec] of Object.entries(spec.schema)) {
+        if (record[field] === undefined) {
+          if (!fieldSpec.optional) {
+            this.record('missing-field', payload, `${path}.${field}`, 'undefined', onIssue);
+          }
+          continue;
+        }
+        this.check(record[field], fieldSpec, `${path}.${field}`, payload, onIssue);
+      }
+
+      for (const field of Object.keys(record)) {
+        if (!(field in spec.schema)) {
+          this.record('unexpected-field', payload, `${path}.${field}`, this.sample(record[field]), onIssue);
+        }
+      }
+    }
+  }
+
+  private record(kind: ValidationIssue['kind'], payload: UpstreamPayloadType, path: string, sample: string, onIssue: () => void): void {
+    onIssue();
+
+    const key = `${kind}:${path}`;
+    const existing = this.issues.get(key);
+    const now = new Date();
+
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = now;
+      return;
+    }
+
+    console.warn(`Upstream ${kind} at ${path}: ${sample}`);
+    this.issues.set(key, { kind, payload, path, count: 1, firstSeen: now, lastSeen: now, sample });
+  }
+
+  private sample(value: unknown): string {
+    const text = JSON.stringify(value) ?? String(value);
+    return text.length > 200 ? `${text.substring(0, 200)}...` : text;
+  }
+}
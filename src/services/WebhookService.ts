@@ -0,0 +1,422 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+
+export type WebhookEventType = 'pregame.snapshot' | 'pregame.delta' | 'live.delta' | 'live.incident' | 'alert' | 'status' | 'error' | 'token.refresh';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['pregame.snapshot', 'pregame.delta', 'live.delta', 'live.incident', 'alert', 'status', 'error', 'token.refresh'];
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  eventTypes: WebhookEventType[];
+  sportIds: number[] | null;  // null delivers every sport
+  enabled: boolean;
+  createdAt: string;
+  createdBy: string;
+}
+
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+export interface NewWebhookInput {
+  url: string;
+  secret?: string;
+  eventTypes: WebhookEventType[];
+  sportIds?: number[] | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventType: WebhookEventType;
+  sportId: number | null;
+  body: string;
+  attempts: number;
+  createdAt: string;
+}
+
+export interface DeadLetter extends WebhookDelivery {
+  url: string;
+  lastStatus: number | null;
+  lastError: string;
+  failedAt: string;
+}
+
+interface DeliveryQueue {
+  deliveries: WebhookDelivery[];
+  active: number;  // Deliveries being sent or waiting for a retry
+}
+
+export interface WebhookStats {
+  webhooks: number;
+  pending: number;
+  delivered: number;
+  failedAttempts: number;
+  deadLetters: number;
+}
+
+/**
+ * Outbound webhooks for downstream systems that cannot hold an SSE connection. Every payload is
+ * POSTed as JSON and signed with HMAC-SHA256 over "<timestamp>.<body>" using the webhook secret.
+ * Failed deliveries are retried with exponential backoff; once the attempts are used up they are
+ * written to the dead-letter log, from where they can be replayed. Each webhook has its own bounded
+ * queue, and at most WEBHOOK_MAX_IN_FLIGHT of its deliveries are sent or waiting for a retry at once,
+ * so with the default of 1 a webhook receives its messages in order.
+ */
+export class WebhookService {
+  private webhooks: Map<string, Webhook> = new Map();
+  private deadLetters: DeadLetter[] = [];
+  private queues: Map<string, DeliveryQueue> = new Map();
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+  private deadLetterWrite: Promise<void> = Promise.resolve();
+  private deadLettersDirty = false;
+  private readonly WEBHOOKS_FILE_PATH = process.env.WEBHOOKS_PATH || path.join(process.cwd(), 'data', 'webhooks.json');
+  private readonly DEAD_LETTERS_FILE_PATH = process.env.WEBHOOK_DEAD_LETTERS_PATH || path.join(process.cwd(), 'data', 'webhook-dead-letters.json');
+  private readonly MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+  private readonly RETRY_BASE_DELAY = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY || '1000');
+  private readonly RETRY_MAX_DELAY = parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY || '300000');
+  private readonly REQUEST_TIMEOUT = parseInt(process.env.WEBHOOK_TIMEOUT || '10000');
+  private readonly DEAD_LETTER_LIMIT = parseInt(process.env.WEBHOOK_DEAD_LETTER_LIMIT || '1000');
+  private readonly MAX_IN_FLIGHT = parseInt(process.env.WEBHOOK_MAX_IN_FLIGHT || '1');
+  private readonly QUEUE_LIMIT = parseInt(process.env.WEBHOOK_QUEUE_LIMIT || '1000');
+
+  private pending = 0;
+  private delivered = 0;
+  private failedAttempts = 0;
+
+  /**
+   * Load webhooks and the dead-letter log from disk
+   */
+  public async load(): Promise<void> {
+    try {
+      if (fs.existsSync(this.WEBHOOKS_FILE_PATH)) {
+        const webhooks: Webhook[] = JSON.parse(await fs.promises.readFile(this.WEBHOOKS_FILE_PATH, 'utf8'));
+        this.webhooks = new Map(webhooks.map(webhook => [webhook.id, webhook]));
+        console.log(`Loaded ${this.webhooks.size} webhooks`);
+      }
+
+      if (fs.existsSync(this.DEAD_LETTERS_FILE_PATH)) {
+        this.deadLetters = JSON.parse(await fs.promises.readFile(this.DEAD_LETTERS_FILE_PATH, 'utf8'));
+        console.log(`Loaded ${this.deadLetters.length} webhook dead letters`);
+      }
+    } catch (error) {
+      console.error('Failed to load webhooks:', error);
+      throw error;
+    }
+  }
+
+  public getWebhooks(): PublicWebhook[] {
+    return Array.from(this.webhooks.values()).map(webhook => this.toPublicWebhook(webhook));
+  }
+
+  /**
+   * Register a webhook. The secret is generated when none is given and only returned here.
+   */
+  public async createWebhook(input: NewWebhookInput, createdBy: string): Promise<{ webhook: PublicWebhook; secret: string }> {
+    const { url, eventTypes, sportIds = null } = input;
+    const secret = input.secret || `whsec_${randomBytes(24).toString('base64url')}`;
+
+    if (!url || typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+      throw new Error('url must be an http(s) URL');
+    }
+    if (!Array.isArray(eventTypes) || eventTypes.length === 0) {
+      throw new Error(`eventTypes must list at least one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+    }
+    const unknownType = eventTypes.find(type => !WEBHOOK_EVENT_TYPES.includes(type));
+    if (unknownType) {
+      throw new Error(`Unknown event type: ${unknownType}`);
+    }
+    if (sportIds !== null && (!Array.isArray(sportIds) || sportIds.some(sportId => !Number.isInteger(sportId)))) {
+      throw new Error('sportIds must be a list of numeric sport IDs or null');
+    }
+    if (typeof secret !== 'string' || secret.length < 16) {
+      throw new Error('secret must be at least 16 characters');
+    }
+
+    const webhook: Webhook = {
+      id: randomUUID(),
+      url,
+      secret,
+      eventTypes: Array.from(new Set(eventTypes)),
+      sportIds,
+      enabled: true,
+      createdAt: new Date().toISOString(),
+      createdBy
+    };
+
+    this.webhooks.set(webhook.id, webhook);
+    await this.saveWebhooks();
+    console.log(`Registered webhook ${webhook.id} for ${url} (${webhook.eventTypes.join(', ')})`);
+
+    return { webhook: this.toPublicWebhook(webhook), secret };
+  }
+
+  public async deleteWebhook(webhookId: string): Promise<boolean> {
+    if (!this.webhooks.delete(webhookId)) {
+      return false;
+    }
+
+    // Queued deliveries are dropped, the ones in flight end with their current attempt
+    const queue = this.queues.get(webhookId);
+    if (queue) {
+      this.pending -= queue.deliveries.length;
+      queue.deliveries = [];
+    }
+
+    await this.saveWebhooks();
+    console.log(`Deleted webhook ${webhookId}`);
+    return true;
+  }
+
+  /**
+   * Queue a payload for every enabled webhook subscribed to the event type and sport.
+   * Events without a sport (token refreshes, service errors) go to every subscribed webhook.
+   */
+  public dispatch(eventType: WebhookEventType, data: unknown, sportId: number | null = null): void {
+    for (const webhook of this.webhooks.values()) {
+      if (!webhook.enabled || !webhook.eventTypes.includes(eventType)) {
+        continue;
+      }
+      if (sportId !== null && webhook.sportIds && !webhook.sportIds.includes(sportId)) {
+        continue;
+      }
+
+      const id = randomUUID();
+      const createdAt = new Date().toISOString();
+      const body = JSON.stringify({ id, type: eventType, sportId, createdAt, data });
+
+      this.enqueue(webhook, { id, webhookId: webhook.id, eventType, sportId, body, attempts: 0, createdAt });
+    }
+  }
+
+  public getDeadLetters(webhookId?: string): DeadLetter[] {
+    return this.deadLetters.filter(deadLetter => !webhookId || deadLetter.webhookId === webhookId);
+  }
+
+  /**
+   * Move dead letters back into delivery with a fresh set of attempts. Without IDs every dead letter
+   * (of the given webhook) is replayed. Returns the number of deliveries queued.
+   */
+  public async replayDeadLetters(deliveryIds?: string[], webhookId?: string): Promise<number> {
+    const replay = this.deadLetters.filter(deadLetter =>
+      (!deliveryIds || deliveryIds.includes(deadLetter.id)) && (!webhookId || deadLetter.webhookId === webhookId)
+    );
+
+    let queued = 0;
+    for (const deadLetter of replay) {
+      const webhook = this.webhooks.get(deadLetter.webhookId);
+      if (!webhook) {
+        continue;
+      }
+
+      this.deadLetters = this.deadLetters.filter(candidate => candidate.id !== deadLetter.id);
+      const { url, lastStatus, lastError, failedAt, ...delivery } = deadLetter;
+      this.enqueue(webhook, { ...delivery, attempts: 0 });
+      queued++;
+    }
+
+    if (queued > 0) {
+      await this.saveDeadLetters();
+      console.log(`Replaying ${queued} webhook dead letters`);
+    }
+    return queued;
+  }
+
+  public getStats(): WebhookStats {
+    return {
+      webhooks: this.webhooks.size,
+      pending: this.pending,
+      delivered: this.delivered,
+      failedAttempts: this.failedAttempts,
+      deadLetters: this.deadLetters.length
+    };
+  }
+
+  /**
+   * Stop pending retries; queued deliveries and those still waiting for a retry are lost
+   */
+  public close(): void {
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.queues.clear();
+  }
+
+  /**
+   * Add a delivery to the webhook's queue. A full queue moves its oldest delivery to the dead letters.
+   */
+  private enqueue(webhook: Webhook, delivery: WebhookDelivery): void {
+    let queue = this.queues.get(webhook.id);
+    if (!queue) {
+      queue = { deliveries: [], active: 0 };
+      this.queues.set(webhook.id, queue);
+    }
+
+    if (queue.deliveries.length >= this.QUEUE_LIMIT) {
+      const dropped = queue.deliveries.shift()!;
+      this.pending--;
+      console.error(`Webhook queue for ${webhook.url} is full, moved delivery ${dropped.id} to dead letters`);
+      this.addDeadLetter(webhook, dropped, null, 'Delivery queue full');
+    }
+
+    queue.deliveries.push(delivery);
+    this.pending++;
+    this.drain(webhook, queue);
+  }
+
+  private drain(webhook: Webhook, queue: DeliveryQueue): void {
+    while (queue.active < this.MAX_IN_FLIGHT && queue.deliveries.length > 0) {
+      const delivery = queue.deliveries.shift()!;
+      queue.active++;
+
+      this.deliver(webhook, delivery)
+        .catch(error => console.error(`Webhook delivery ${delivery.id} failed unexpectedly:`, error))
+        .finally(() => {
+          queue.active--;
+          if (queue.active === 0 && queue.deliveries.length === 0 && this.queues.get(webhook.id) === queue) {
+            this.queues.delete(webhook.id);
+          } else {
+            this.drain(webhook, queue);
+          }
+        });
+    }
+  }
+
+  /**
+   * Send a delivery, retrying it in place so it keeps its slot until it succeeds or is dead-lettered
+   */
+  private async deliver(webhook: Webhook, delivery: WebhookDelivery): Promise<void> {
+    for (;;) {
+      const delay = await this.attemptDelivery(webhook, delivery);
+      if (delay === null) {
+        return;
+      }
+
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(() => {
+          this.retryTimers.delete(timer);
+          resolve();
+        }, delay);
+        this.retryTimers.add(timer);
+      });
+    }
+  }
+
+  /**
+   * One attempt; returns the delay before the next attempt, or null once the delivery is done
+   */
+  private async attemptDelivery(webhook: Webhook, delivery: WebhookDelivery): Promise<number | null> {
+    delivery.attempts++;
+    let status: number | null = null;
+    let errorMessage: string;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT);
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'MeridianBet-Scraper-Webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `t=${timestamp},v1=${this.sign(webhook.secret, timestamp, delivery.body)}`
+        },
+        body: delivery.body,
+        signal: controller.signal
+      });
+      status = response.status;
+
+      if (response.ok) {
+        this.pending--;
+        this.delivered++;
+        return null;
+      }
+      errorMessage = `HTTP ${response.status}`;
+    } catch (error) {
+      errorMessage = controller.signal.aborted
+        ? `Timed out after ${this.REQUEST_TIMEOUT}ms`
+        : (error instanceof Error ? error.message : String(error));
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    this.failedAttempts++;
+
+    // Client errors other than 408/429 will not succeed on retry
+    const retryable = status === null || status === 408 || status === 429 || status >= 500;
+
+    if (retryable && delivery.attempts < this.MAX_ATTEMPTS && this.webhooks.has(webhook.id)) {
+      const delay = Math.round(Math.min(this.RETRY_MAX_DELAY, this.RETRY_BASE_DELAY * 2 ** (delivery.attempts - 1)) * (0.5 + Math.random() / 2));
+      console.warn(`Webhook delivery ${delivery.id} to ${webhook.url} failed (${errorMessage}), retry ${delivery.attempts}/${this.MAX_ATTEMPTS - 1} in ${delay}ms`);
+      return delay;
+    }
+
+    this.pending--;
+    console.error(`Webhook delivery ${delivery.id} to ${webhook.url} failed after ${delivery.attempts} attempts (${errorMessage}), moved to dead letters`);
+    this.addDeadLetter(webhook, delivery, status, errorMessage);
+    return null;
+  }
+
+  private addDeadLetter(webhook: Webhook, delivery: WebhookDelivery, status: number | null, errorMessage: string): void {
+    this.deadLetters.push({
+      ...delivery,
+      url: webhook.url,
+      lastStatus: status,
+      lastError: errorMessage,
+      failedAt: new Date().toISOString()
+    });
+    if (this.deadLetters.length > this.DEAD_LETTER_LIMIT) {
+      this.deadLetters.splice(0, this.deadLetters.length - this.DEAD_LETTER_LIMIT);
+    }
+    this.saveDeadLetters();
+  }
+
+  private sign(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  private async saveWebhooks(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.WEBHOOKS_FILE_PATH), { recursive: true });
+    await fs.promises.writeFile(
+      this.WEBHOOKS_FILE_PATH,
+      JSON.stringify(Array.from(this.webhooks.values()), null, 2),
+      { encoding: 'utf8', mode: 0o600 }
+    );
+  }
+
+  /**
+   * Writes are chained so they never overlap; saves requested while a write is running are
+   * coalesced into one write of the latest state
+   */
+  private saveDeadLetters(): Promise<void> {
+    this.deadLettersDirty = true;
+    this.deadLetterWrite = this.deadLetterWrite.then(() => this.writeDeadLetters());
+    return this.deadLetterWrite;
+  }
+
+  private async writeDeadLetters(): Promise<void> {
+    if (!this.deadLettersDirty) {
+      return;
+    }
+    this.deadLettersDirty = false;
+
+    // Write a temporary file and rename it, so a crash never leaves a truncated log behind
+    const tempPath = `${this.DEAD_LETTERS_FILE_PATH}.tmp`;
+    try {
+      await fs.promises.mkdir(path.dirname(this.DEAD_LETTERS_FILE_PATH), { recursive: true });
+      await fs.promises.writeFile(tempPath, JSON.stringify(this.deadLetters, null, 2), 'utf8');
+      await fs.promises.rename(tempPath, this.DEAD_LETTERS_FILE_PATH);
+    } catch (error) {
+      console.error('Failed to save webhook dead letters:', error);
+    }
+  }
+
+  private toPublicWebhook(webhook: Webhook): PublicWebhook {
+    const { secret, ...publicWebhook } = webhook;
+    return publicWebhook;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FairOddsMethod } from '../src/models/canonical';
+import { FAIR_ODDS_METHODS, computeMarketAnalytics } from '../src/services/MarketAnalytics';
+
+const active = (prices: number[]) => prices.map((price, index) => ({ id: `s${index}`, price, state: 'ACTIVE' }));
+
+function assertClose(actual: number, expected: number, tolerance = 1e-5): void {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${actual} to be within ${tolerance} of ${expected}`);
+}
+
+function fairProbabilities(prices: number[]) {
+  const analytics = computeMarketAnalytics(active(prices));
+  assert.ok(analytics);
+  const probabilities = (method: FairOddsMethod) => analytics.outcomes.map(outcome => outcome.fairProbability[method]);
+  return { analytics, probabilities };
+}
+
+describe('computeMarketAnalytics', () => {
+  it('reports overround, margin and payout', () => {
+    const analytics = computeMarketAnalytics(active([1.5, 2.6]));
+    assert.ok(analytics);
+    assertClose(analytics.overround, 1.051282);
+    assertClose(analytics.margin, 0.051282);
+    assertClose(analytics.payout, 0.95122);
+    assert.deepEqual(analytics.outcomes.map(outcome => outcome.outcomeId), ['s0', 's1']);
+    assertClose(analytics.outcomes[0].impliedProbability, 0.666667);
+  });
+
+  it('matches known fair probabilities of a two-way market', () => {
+    const { analytics, probabilities } = fairProbabilities([1.5, 2.6]);
+
+    probabilities('proportional').forEach((probability, index) => assertClose(probability, [0.634146, 0.365854][index]));
+    // With two outcomes Shin's method removes half the margin from each implied probability
+    probabilities('shin').forEach((probability, index) => assertClose(probability, [0.641026, 0.358974][index]));
+    probabilities('power').forEach((probability, index) => assertClose(probability, [0.64465, 0.35535][index]));
+    assertClose(analytics.shinZ, 0.051498);
+    assertClose(analytics.powerExponent, 1.082825);
+  });
+
+  it('matches known fair probabilities of a three-way market', () => {
+    const { analytics, probabilities } = fairProbabilities([2.0, 3.4, 4.2]);
+
+    probabilities('proportional').forEach((probability, index) => assertClose(probability, [0.484396, 0.284939, 0.230665][index]));
+    probabilities('shin').forEach((probability, index) => assertClose(probability, [0.488023, 0.283771, 0.228206][index]));
+    probabilities('power').forEach((probability, index) => assertClose(probability, [0.489279, 0.283075, 0.227646][index]));
+    assertClose(analytics.shinZ, 0.016137);
+    assertClose(analytics.powerExponent, 1.031271);
+  });
+
+  it('gives fair probabilities that sum to 1 and fair prices that invert them', () => {
+    for (const prices of [[1.5, 2.6], [2.0, 3.4, 4.2], [1.01, 15, 30], [3.1, 3.1, 3.1, 3.1]]) {
+      const { analytics, probabilities } = fairProbabilities(prices);
+
+      for (const method of FAIR_ODDS_METHODS) {
+        assertClose(probabilities(method).reduce((sum, probability) => sum + probability, 0), 1);
+        analytics.outcomes.forEach(outcome => assertClose(outcome.fairPrice[method] * outcome.fairProbability[method], 1, 1e-4));
+      }
+    }
+  });
+
+  it('keeps the implied probabilities of a market without margin', () => {
+    const { analytics, probabilities } = fairProbabilities([2, 2]);
+
+    assert.equal(analytics.margin, 0);
+    assert.equal(analytics.shinZ, 0);
+    assertClose(analytics.powerExponent, 1);
+    for (const method of FAIR_ODDS_METHODS) {
+      assert.deepEqual(probabilities(method), [0.5, 0.5]);
+    }
+  });
+
+  it('scales the probabilities of a market priced above fair proportionally for Shin', () => {
+    const { analytics, probabilities } = fairProbabilities([2.2, 2.2]);
+
+    assert.ok(analytics.margin < 0);
+    assert.equal(analytics.shinZ, 0);
+    assert.deepEqual(probabilities('shin'), probabilities('proportional'));
+    assertClose(probabilities('power').reduce((sum, probability) => sum + probability, 0), 1);
+  });
+
+  it('has no analytics while any selection is not active', () => {
+    const outcomes = active([1.5, 2.6]);
+    outcomes[1].state = 'SUSPENDED';
+    assert.equal(computeMarketAnalytics(outcomes), null);
+  });
+
+  it('leaves out selections priced at 1.00 or lower', () => {
+    const analytics = computeMarketAnalytics(active([1, 0.5, 1.5, 2.6]));
+    assert.ok(analytics);
+    assert.deepEqual(analytics.outcomes.map(outcome => outcome.outcomeId), ['s2', 's3']);
+  });
+
+  it('has no analytics with fewer than two priced selections', () => {
+    assert.equal(computeMarketAnalytics(active([1, 1.8])), null);
+    assert.equal(computeMarketAnalytics(active([])), null);
+    assert.equal(computeMarketAnalytics(active([NaN, 2])), null);
+  });
+});
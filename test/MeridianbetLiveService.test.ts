@@ -0,0 +1,127 @@
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { LiveConnectionState, MeridianbetLiveService } from '../src/services/MeridianbetLiveService';
+import { FakeSocketIoServer } from './fakeSocketIoServer';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const SPORT_SUBSCRIPTION = '42["subscriptions","{\\"subscriptionType\\":\\"OFFER_UPDATE_LIVE_SPORT';
+
+/**
+ * Token service double that hands out token-1, token-2, ... and records forced refreshes
+ */
+function createTokenService() {
+  let token = 1;
+  const forcedRefreshes: string[] = [];
+  const currentToken = () => ({ accessToken: `token-${token}`, refreshToken: 'refresh', expiresAt: new Date(Date.now() + 3600000), extractedAt: new Date() });
+
+  return {
+    forcedRefreshes,
+    service: {
+      getCurrentToken: currentToken,
+      refreshTokenIfNeeded: async () => currentToken(),
+      forceTokenRefresh: async (rejectedToken: string) => {
+        forcedRefreshes.push(rejectedToken);
+        token++;
+        return currentToken();
+      }
+    }
+  };
+}
+
+describe('MeridianbetLiveService reconnects', () => {
+  let server: FakeSocketIoServer;
+  let liveService: MeridianbetLiveService;
+  let states: LiveConnectionState[];
+  let tokens: ReturnType<typeof createTokenService>;
+
+  before(() => {
+    mock.method(console, 'log', () => { });
+    mock.method(console, 'warn', () => { });
+    mock.method(console, 'error', () => { });
+    process.env.WEBSOCKET_RECONNECT_DELAY = '20';
+    process.env.WEBSOCKET_RECONNECT_MAX_DELAY = '40';
+    process.env.WEBSOCKET_MAX_RECONNECT_ATTEMPTS = '3';
+  });
+
+  after(() => {
+    mock.restoreAll();
+    ['WEBSOCKET_URL', 'WEBSOCKET_RECONNECT_DELAY', 'WEBSOCKET_RECONNECT_MAX_DELAY', 'WEBSOCKET_MAX_RECONNECT_ATTEMPTS'].forEach(name => delete process.env[name]);
+  });
+
+  afterEach(async () => {
+    liveService.stopLiveExtraction();
+    await server.close();
+  });
+
+  async function startLive() {
+    server = new FakeSocketIoServer();
+    await server.ready();
+    process.env.WEBSOCKET_URL = server.url;
+
+    tokens = createTokenService();
+    const httpClient = { getJson: async () => ({ payload: { events: [] } }) };
+    const nameResolver = { learn: () => { }, forgetEvents: () => { } };
+    liveService = new MeridianbetLiveService(tokens.service as any, httpClient as any, {} as any, nameResolver as any);
+
+    states = [];
+    liveService.setConnectionStateCallback(status => states.push(status.state));
+
+    const connection = server.nextConnection();
+    await liveService.startLiveExtraction(58);
+    return connection;
+  }
+
+  it('reconnects, resubscribes and reports the connection states after the server drops', async () => {
+    const first = await startLive();
+    assert.match(await first.waitFor(SPORT_SUBSCRIPTION), /"sportId\\":58/);
+
+    const second = server.nextConnection();
+    first.ws.close();
+    const reconnected = await second;
+
+    assert.match(await reconnected.waitFor(SPORT_SUBSCRIPTION), /"sportId\\":58/);
+    await delay(20);
+    assert.deepEqual(states, ['connected', 'reconnecting', 'connected']);
+    assert.equal(liveService.getConnectionStatus()?.attempt, 0);
+    assert.deepEqual(tokens.forcedRefreshes, []);
+  });
+
+  it('refreshes the token after the handshake was refused', async () => {
+    const first = await startLive();
+    await first.waitFor('42');
+
+    let refusals = 1;
+    server.setConnectReply(() => refusals-- > 0 ? '44{"message":"Invalid token"}' : '40{"sid":"again"}');
+
+    const refused = server.nextConnection();
+    first.ws.close();
+    await refused;
+
+    const accepted = await server.nextConnection();
+    await accepted.waitFor('42');
+
+    assert.deepEqual(tokens.forcedRefreshes, ['token-1']);
+    assert.equal(new URLSearchParams(accepted.url.split('?')[1]).get('access_token'), 'token-2');
+    await delay(20);
+    assert.equal(states[states.length - 1], 'connected');
+  });
+
+  it('stops live extraction once every reconnect attempt failed', async () => {
+    const first = await startLive();
+    await first.waitFor('42');
+
+    const failures: Error[] = [];
+    liveService.setExtractionFailedCallback(error => failures.push(error));
+    server.setConnectReply(() => '44{"message":"Maintenance"}');
+
+    first.ws.close();
+    for (let i = 0; i < 50 && failures.length === 0; i++) {
+      await delay(20);
+    }
+
+    assert.equal(failures.length, 1);
+    assert.match(failures[0].message, /reconnection failed after 3 attempts/);
+    assert.deepEqual(states, ['connected', 'reconnecting', 'reconnecting', 'reconnecting', 'failed']);
+    assert.equal(server.connections.length, 4);
+  });
+});
@@ -0,0 +1,246 @@
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { DisconnectReason, SocketIoClient, SocketIoConnectError } from '../src/services/SocketIoClient';
+import { FakeSocketIoServer } from './fakeSocketIoServer';
+
+type TestEvents = {
+  update: (payload: string) => void;
+  file: (meta: { name: string }, data: Buffer) => void;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('SocketIoClient', () => {
+  let server: FakeSocketIoServer;
+  let client: SocketIoClient<TestEvents> | null = null;
+
+  before(() => {
+    mock.method(console, 'log', () => { });
+    mock.method(console, 'warn', () => { });
+    mock.method(console, 'error', () => { });
+  });
+
+  after(() => mock.restoreAll());
+
+  afterEach(async () => {
+    client?.close();
+    client = null;
+    await server?.close();
+  });
+
+  async function connect(options: ConstructorParameters<typeof FakeSocketIoServer>[0] = {}, clientOptions: Partial<ConstructorParameters<typeof SocketIoClient>[0]> = {}) {
+    server = new FakeSocketIoServer(options);
+    await server.ready();
+    const connection = server.nextConnection();
+    client = new SocketIoClient<TestEvents>({ url: server.url, connectTimeout: 500, ackTimeout: 200, ...clientOptions });
+    const connected = client.connect();
+    return { connection: await connection, connected };
+  }
+
+  describe('handshake', () => {
+    it('completes the Engine.IO open and namespace CONNECT handshakes', async () => {
+      const { connection, connected } = await connect({}, { query: { access_token: 'token' }, auth: { user: 'u1' } });
+      await connected;
+
+      assert.equal(client!.isConnected(), true);
+      assert.equal(client!.getSessionId(), 'socket-1');
+
+      const query = new URLSearchParams(connection.url.split('?')[1]);
+      assert.equal(query.get('EIO'), '4');
+      assert.equal(query.get('transport'), 'websocket');
+      assert.equal(query.get('access_token'), 'token');
+      assert.equal(await connection.waitFor('40'), '40{"user":"u1"}');
+    });
+
+    it('connects to a custom namespace', async () => {
+      const { connected } = await connect({ connectReply: () => '40/live,{"sid":"ns"}' }, { namespace: '/live' });
+      await connected;
+      assert.equal(client!.getSessionId(), 'ns');
+    });
+
+    it('rejects with a SocketIoConnectError when the server refuses the namespace', async () => {
+      const { connected } = await connect({ connectReply: () => '44{"message":"Invalid token"}' });
+
+      await assert.rejects(connected, (error: unknown) =>
+        error instanceof SocketIoConnectError && /Invalid token/.test(error.message) && (error.data as any).message === 'Invalid token'
+      );
+      assert.equal(client!.isConnected(), false);
+    });
+
+    it('times out when the namespace handshake is never answered', async () => {
+      const { connected } = await connect({ connectReply: () => null }, { connectTimeout: 100 });
+      await assert.rejects(connected, /handshake timeout/);
+    });
+
+    it('refuses a second connect while connecting', async () => {
+      const { connected } = await connect();
+      await assert.rejects(client!.connect(), /already connecting or connected/);
+      await connected;
+    });
+
+    it('rejects and closes on a malformed frame during the handshake', async () => {
+      const { connection, connected } = await connect({ connectReply: () => '9garbage' });
+      await assert.rejects(connected);
+      await new Promise(resolve => connection.ws.once('close', resolve));
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('answers server pings with pongs', async () => {
+      const { connection, connected } = await connect();
+      await connected;
+
+      connection.send('2probe');
+      assert.equal(await connection.waitFor('3'), '3probe');
+    });
+
+    it('pings the server every pingInterval when sendPings is set', async () => {
+      const { connection, connected } = await connect({ pingInterval: 30, pingTimeout: 1000 }, { sendPings: true });
+      await connected;
+
+      assert.equal(await connection.waitFor('2'), '2');
+    });
+
+    it('closes the connection with a ping timeout when the server goes silent', async () => {
+      const { connected } = await connect({ pingInterval: 40, pingTimeout: 40 });
+      const reasons: DisconnectReason[] = [];
+      client!.setDisconnectCallback(reason => reasons.push(reason));
+      await connected;
+
+      await delay(200);
+      assert.deepEqual(reasons, ['ping timeout']);
+      assert.equal(client!.isConnected(), false);
+    });
+
+    it('keeps the connection while the server keeps sending', async () => {
+      const { connection, connected } = await connect({ pingInterval: 100, pingTimeout: 100 });
+      const reasons: DisconnectReason[] = [];
+      client!.setDisconnectCallback(reason => reasons.push(reason));
+      await connected;
+
+      for (let i = 0; i < 6; i++) {
+        await delay(50);
+        connection.send('2');
+      }
+      assert.deepEqual(reasons, []);
+      assert.equal(client!.isConnected(), true);
+    });
+  });
+
+  describe('acknowledgements', () => {
+    it('correlates acknowledgements with their emits by ack ID', async () => {
+      const { connection, connected } = await connect();
+      await connected;
+
+      const first = client!.emitWithAck('subscribe', { sportId: 58 });
+      const second = client!.emitWithAck('subscribe', { sportId: 55 });
+      assert.equal(await connection.waitFor('420'), '420["subscribe",{"sportId":58}]');
+      assert.equal(await connection.waitFor('421'), '421["subscribe",{"sportId":55}]');
+
+      // Answered out of order
+      connection.send('431["second"]');
+      connection.send('430["first"]');
+      assert.deepEqual(await first, ['first']);
+      assert.deepEqual(await second, ['second']);
+    });
+
+    it('rejects an emit that is not acknowledged in time', async () => {
+      const { connected } = await connect();
+      await connected;
+
+      await assert.rejects(client!.emitWithAck('subscribe'), /No acknowledgement for subscribe within 200ms/);
+    });
+
+    it('rejects pending acknowledgements when the connection closes', async () => {
+      const { connection, connected } = await connect();
+      await connected;
+
+      const pending = client!.emitWithAck('subscribe');
+      await connection.waitFor('420');
+      connection.ws.close();
+      await assert.rejects(pending, /Connection closed: transport close/);
+    });
+
+    it('acknowledges server events after their handlers ran', async () => {
+      const { connection, connected } = await connect();
+      await connected;
+
+      const received: string[] = [];
+      client!.on('update', payload => received.push(payload));
+      connection.send('427["update","hello"]');
+
+      assert.equal(await connection.waitFor('437'), '437[]');
+      assert.deepEqual(received, ['hello']);
+    });
+
+    it('dispatches binary events once every attachment arrived', async () => {
+      const { connection, connected } = await connect();
+      await connected;
+
+      const received = new Promise<[{ name: string }, Buffer]>(resolve => client!.on('file', (meta, data) => resolve([meta, data])));
+      connection.send('451-["file",{"name":"a.bin"},{"_placeholder":true,"num":0}]');
+      connection.send(Buffer.from([1, 2, 3]));
+
+      const [meta, data] = await received;
+      assert.deepEqual(meta, { name: 'a.bin' });
+      assert.deepEqual([...data], [1, 2, 3]);
+    });
+  });
+
+  describe('disconnects', () => {
+    it('reports a server namespace disconnect', async () => {
+      const { connection, connected } = await connect();
+      const reasons: DisconnectReason[] = [];
+      client!.setDisconnectCallback(reason => reasons.push(reason));
+      await connected;
+
+      connection.send('41');
+      await new Promise(resolve => connection.ws.once('close', resolve));
+      await delay(20);
+      assert.deepEqual(reasons, ['io server disconnect']);
+    });
+
+    it('sends a namespace DISCONNECT when closed on purpose', async () => {
+      const { connection, connected } = await connect();
+      const reasons: DisconnectReason[] = [];
+      client!.setDisconnectCallback(reason => reasons.push(reason));
+      await connected;
+
+      client!.close();
+      assert.equal(await connection.waitFor('41'), '41');
+      await delay(20);
+      assert.deepEqual(reasons, ['io client disconnect']);
+    });
+
+    it('terminates the connection on a malformed frame', async () => {
+      const { connection, connected } = await connect();
+      const reasons: DisconnectReason[] = [];
+      const errors: Error[] = [];
+      client!.setDisconnectCallback(reason => reasons.push(reason));
+      client!.setErrorCallback(error => errors.push(error));
+      await connected;
+
+      connection.send('4garbage');
+      await delay(50);
+      assert.deepEqual(reasons, ['parse error']);
+      assert.equal(errors.length, 1);
+    });
+
+    it('connects again after a disconnect with a fresh session', async () => {
+      const { connection, connected } = await connect();
+      await connected;
+
+      connection.ws.close();
+      await delay(20);
+      assert.equal(client!.isConnected(), false);
+      assert.equal(client!.getSessionId(), null);
+
+      const reconnection = server.nextConnection();
+      const reconnected = client!.connect();
+      await reconnection;
+      await reconnected;
+      assert.equal(client!.isConnected(), true);
+      assert.equal(client!.getSessionId(), 'socket-2');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  EnginePacketType,
+  SocketIoProtocolError,
+  SocketPacketType,
+  decodeEnginePacket,
+  decodeSocketPacket,
+  encodeEnginePacket,
+  encodeSocketPacket,
+  parseEngineHandshake,
+  reconstructBinaryPacket
+} from '../src/services/SocketIoProtocol';
+
+describe('Engine.IO packets', () => {
+  it('encodes packets with and without data', () => {
+    assert.equal(encodeEnginePacket(EnginePacketType.Pong), '3');
+    assert.equal(encodeEnginePacket(EnginePacketType.Message, '40'), '440');
+  });
+
+  it('decodes text frames', () => {
+    assert.deepEqual(decodeEnginePacket('2'), { type: EnginePacketType.Ping });
+    assert.deepEqual(decodeEnginePacket('42["event","payload"]'), { type: EnginePacketType.Message, data: '2["event","payload"]' });
+  });
+
+  it('decodes binary frames as attachments', () => {
+    const frame = Buffer.from([1, 2, 3]);
+    assert.deepEqual(decodeEnginePacket(frame, true), { type: 'binary', data: frame });
+  });
+
+  it('rejects unknown packet types', () => {
+    assert.throws(() => decodeEnginePacket('9oops'), SocketIoProtocolError);
+    assert.throws(() => decodeEnginePacket(''), SocketIoProtocolError);
+  });
+
+  it('parses the open packet handshake', () => {
+    const handshake = parseEngineHandshake('{"sid":"abc","upgrades":[],"pingInterval":10000,"pingTimeout":5000,"maxPayload":1000}');
+    assert.deepEqual(handshake, { sid: 'abc', upgrades: [], pingInterval: 10000, pingTimeout: 5000, maxPayload: 1000 });
+  });
+
+  it('rejects malformed handshakes', () => {
+    assert.throws(() => parseEngineHandshake('{not json'), SocketIoProtocolError);
+    assert.throws(() => parseEngineHandshake('{"pingInterval":1}'), SocketIoProtocolError);
+    assert.throws(() => parseEngineHandshake(undefined), SocketIoProtocolError);
+  });
+});
+
+describe('Socket.IO packets', () => {
+  it('encodes connect and event packets in the default namespace', () => {
+    assert.equal(encodeSocketPacket({ type: SocketPacketType.Connect, nsp: '/' }), '0');
+    assert.equal(encodeSocketPacket({ type: SocketPacketType.Event, nsp: '/', data: ['subscriptions', '{}'] }), '2["subscriptions","{}"]');
+  });
+
+  it('encodes namespaces and ack ids', () => {
+    assert.equal(encodeSocketPacket({ type: SocketPacketType.Event, nsp: '/live', id: 12, data: ['event'] }), '2/live,12["event"]');
+    assert.equal(encodeSocketPacket({ type: SocketPacketType.Ack, nsp: '/', id: 7, data: [] }), '37[]');
+  });
+
+  it('encodes binary packets with their attachment count', () => {
+    const data = ['upload', { _placeholder: true, num: 0 }];
+    assert.equal(
+      encodeSocketPacket({ type: SocketPacketType.BinaryEvent, nsp: '/live', id: 3, data, attachments: 1 }),
+      '51-/live,3["upload",{"_placeholder":true,"num":0}]'
+    );
+  });
+
+  it('decodes event packets with namespace and ack id', () => {
+    assert.deepEqual(decodeSocketPacket('2/live,12["event","payload"]'), {
+      type: SocketPacketType.Event,
+      nsp: '/live',
+      id: 12,
+      data: ['event', 'payload']
+    });
+  });
+
+  it('decodes connect packets with and without a namespace', () => {
+    assert.deepEqual(decodeSocketPacket('0'), { type: SocketPacketType.Connect, nsp: '/' });
+    assert.deepEqual(decodeSocketPacket('0/live,{"sid":"x"}'), { type: SocketPacketType.Connect, nsp: '/live', data: { sid: 'x' } });
+    assert.deepEqual(decodeSocketPacket('1/live,'), { type: SocketPacketType.Disconnect, nsp: '/live' });
+  });
+
+  it('decodes acks', () => {
+    assert.deepEqual(decodeSocketPacket('34[{"ok":true}]'), { type: SocketPacketType.Ack, nsp: '/', id: 4, data: [{ ok: true }] });
+  });
+
+  it('round-trips encoded packets', () => {
+    const packets = [
+      { type: SocketPacketType.Event, nsp: '/', data: ['single-event-update', '{"a":1}'] },
+      { type: SocketPacketType.Event, nsp: '/live', id: 99, data: ['x', 1, null] },
+      { type: SocketPacketType.Ack, nsp: '/live', id: 0, data: ['done'] },
+      { type: SocketPacketType.ConnectError, nsp: '/', data: { message: 'Not authorized' } }
+    ];
+    packets.forEach(packet => assert.deepEqual(decodeSocketPacket(encodeSocketPacket(packet)), packet));
+  });
+
+  it('decodes binary events and reconstructs their attachments', () => {
+    const packet = decodeSocketPacket('52-/live,8["files",{"_placeholder":true,"num":0},[{"_placeholder":true,"num":1}]]');
+    assert.equal(packet.type, SocketPacketType.BinaryEvent);
+    assert.equal(packet.attachments, 2);
+    assert.equal(packet.nsp, '/live');
+    assert.equal(packet.id, 8);
+
+    const first = Buffer.from('first');
+    const second = Buffer.from('second');
+    assert.deepEqual(reconstructBinaryPacket(packet, [first, second]), {
+      type: SocketPacketType.Event,
+      nsp: '/live',
+      id: 8,
+      data: ['files', first, [second]]
+    });
+  });
+
+  it('reconstructs binary acks as acks', () => {
+    const packet = decodeSocketPacket('61-5[{"_placeholder":true,"num":0}]');
+    const attachment = Buffer.from([0xff]);
+    assert.deepEqual(reconstructBinaryPacket(packet, [attachment]), { type: SocketPacketType.Ack, nsp: '/', id: 5, data: [attachment] });
+  });
+
+  it('rejects binary packets with missing attachments', () => {
+    const packet = decodeSocketPacket('51-["file",{"_placeholder":true,"num":1}]');
+    assert.throws(() => reconstructBinaryPacket(packet, [Buffer.from('only one')]), SocketIoProtocolError);
+  });
+
+  it('rejects malformed frames', () => {
+    const malformed = [
+      '',                       // Empty packet
+      '9["event"]',             // Unknown packet type
+      'x',                      // Non-numeric type
+      '5["event"]',             // Binary event without attachment count
+      '5a-["event"]',           // Non-numeric attachment count
+      '2["event"',              // Truncated JSON
+      '2{"not":"an array"}',    // Event data must be an array
+      '2[]',                    // Event without a name
+      '2[42]',                  // Event name must be a string
+      '3{"ok":true}',           // Ack data must be an array
+      '1{"reason":"x"}',        // Disconnect carries no data
+      '0"sid"',                 // Connect data must be an object
+      '4'                       // Connect error without data
+    ];
+
+    for (const frame of malformed) {
+      assert.throws(() => decodeSocketPacket(frame), SocketIoProtocolError, `expected "${frame}" to be rejected`);
+    }
+  });
+
+  it('keeps the offending frame on the error', () => {
+    try {
+      decodeSocketPacket('2["event"');
+      assert.fail('expected an error');
+    } catch (error) {
+      assert.ok(error instanceof SocketIoProtocolError);
+      assert.equal(error.frame, '2["event"');
+    }
+  });
+});
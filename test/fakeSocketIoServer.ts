@@ -0,0 +1,118 @@
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+
+export interface FakeServerOptions {
+  pingInterval?: number;
+  pingTimeout?: number;
+  // Answer to the namespace CONNECT packet; null leaves the handshake unanswered
+  connectReply?: (connectFrame: string, connection: FakeConnection) => string | null;
+}
+
+/**
+ * One client connection as seen by the fake server
+ */
+export class FakeConnection {
+  public readonly frames: Array<string | Buffer> = [];
+  private waiters: Array<{ predicate: (frame: string) => boolean; resolve: (frame: string) => void }> = [];
+
+  constructor(public readonly ws: WebSocket, public readonly url: string) {
+    ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+      const frame = isBinary ? (data as Buffer) : data.toString();
+      this.frames.push(frame);
+
+      if (typeof frame === 'string') {
+        this.waiters = this.waiters.filter(waiter => {
+          if (!waiter.predicate(frame)) {
+            return true;
+          }
+          waiter.resolve(frame);
+          return false;
+        });
+      }
+    });
+  }
+
+  public send(frame: string | Buffer): void {
+    this.ws.send(frame, { binary: Buffer.isBuffer(frame) });
+  }
+
+  /**
+   * Resolve with the first text frame, already received or still to come, that starts with prefix
+   */
+  public waitFor(prefix: string): Promise<string> {
+    const predicate = (frame: string) => frame.startsWith(prefix);
+    const received = this.frames.find(frame => typeof frame === 'string' && predicate(frame));
+    if (received !== undefined) {
+      return Promise.resolve(received as string);
+    }
+    return new Promise(resolve => this.waiters.push({ predicate, resolve }));
+  }
+
+  public textFrames(): string[] {
+    return this.frames.filter((frame): frame is string => typeof frame === 'string');
+  }
+}
+
+/**
+ * Minimal Socket.IO v5 / Engine.IO v4 server on localhost: sends the open packet, answers the
+ * namespace handshake and otherwise leaves every frame to the test
+ */
+export class FakeSocketIoServer {
+  public readonly connections: FakeConnection[] = [];
+  private server: WebSocketServer;
+  private connectionWaiters: Array<(connection: FakeConnection) => void> = [];
+
+  constructor(private options: FakeServerOptions = {}) {
+    this.server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    this.server.on('connection', (ws, request) => {
+      const connection = new FakeConnection(ws, request.url || '');
+      this.connections.push(connection);
+
+      ws.send(`0${JSON.stringify({
+        sid: `engine-${this.connections.length}`,
+        upgrades: [],
+        pingInterval: this.options.pingInterval ?? 25000,
+        pingTimeout: this.options.pingTimeout ?? 20000,
+        maxPayload: 1000000
+      })}`);
+
+      connection.waitFor('40').then(frame => {
+        const reply = this.options.connectReply
+          ? this.options.connectReply(frame, connection)
+          : `40{"sid":"socket-${this.connections.length}"}`;
+        if (reply !== null) {
+          connection.send(reply);
+        }
+      });
+
+      this.connectionWaiters.splice(0).forEach(resolve => resolve(connection));
+    });
+  }
+
+  public get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}/`;
+  }
+
+  public setConnectReply(connectReply: FakeServerOptions['connectReply']): void {
+    this.options.connectReply = connectReply;
+  }
+
+  /**
+   * Resolve with the next client connection
+   */
+  public nextConnection(): Promise<FakeConnection> {
+    return new Promise(resolve => this.connectionWaiters.push(resolve));
+  }
+
+  public async ready(): Promise<void> {
+    if (this.server.address()) {
+      return;
+    }
+    await new Promise(resolve => this.server.once('listening', resolve));
+  }
+
+  public close(): Promise<void> {
+    this.connections.forEach(connection => connection.ws.terminate());
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}